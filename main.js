@@ -14,6 +14,10 @@ const scriptsPath = app.isPackaged
 
 // Import prepareDependencies with the correct path
 const { prepareDependencies } = require(path.join(scriptsPath, 'prepare-flow-deps'));
+const { prepareFlowWorkspace, wrapFlowCode, formatFlowOutputLine, llmApiKeyEnv } = require(path.join(scriptsPath, 'flow-runner'));
+
+// The input parsers shared with the generated code are loaded from the app itself, where the packages they use are found
+const { parseInputFile, spreadsheetSheets } = require('./scripts/input-parsers');
 
 // Set up logging
 let logStream;
@@ -92,6 +96,26 @@ const appStore = new Store({
   clearInvalidConfig: true
 });
 
+// OpenAI-compatible server used for model listing and flow execution, until another one is configured
+const DEFAULT_LLM_PROVIDER = {
+  name: 'LM Studio',
+  baseUrl: 'http://127.0.0.1',
+  port: 1234,
+  endpoint: 'v1/chat/completions',
+  modelsEndpoint: 'api/v0/models',
+  apiKeyHeader: 'Authorization',
+  apiKey: ''
+};
+
+// Initialize store for the run history of projects
+const runHistoryStore = new Store({
+  name: 'run-history',
+  clearInvalidConfig: true
+});
+
+// Number of runs kept in the history of each project, older runs are dropped first
+const MAX_RUNS_PER_PROJECT = 50;
+
 // Set development mode only if not packaged and NODE_ENV is not explicitly set to production
 if (!app.isPackaged && process.env.NODE_ENV !== 'production') {
   process.env.NODE_ENV = 'development';
@@ -103,6 +127,7 @@ console.log('Starting app in mode:', process.env.NODE_ENV);
 
 let mainWindow = null;
 let currentFlowProcess = null;
+let flowTimeoutControl = null;  // Pauses the execution timeout while the flow is paused or waits on a coder
 let isAppReady = false;
 
 // Register IPC handlers
@@ -112,8 +137,37 @@ function registerIpcHandlers() {
     return 'IPC test successful';
   });
 
+  // Create a directory for a new flow run, completed items are checkpointed there
+  ipcMain.handle('create-flow-run', (event, projectId, settings) => {
+    const runId = new Date().toISOString().replace(/[:.]/g, '-');
+    const runDirectory = path.join(app.getPath('userData'), 'runs', projectId, runId);
+    fs.mkdirSync(runDirectory, { recursive: true });
+    updateFlowRun(runDirectory, {
+      id: runId,
+      projectId,
+      settings,
+      status: 'created',
+      createdAt: new Date().toISOString()
+    });
+    return runDirectory;
+  });
+
+  // LLM responses of a project are cached across runs in its own directory
+  ipcMain.handle('get-response-cache-dir', (event, projectId) => {
+    return path.join(app.getPath('userData'), 'response-cache', projectId);
+  });
+
+  ipcMain.handle('clear-response-cache', (event, projectId) => {
+    const cacheDirectory = path.join(app.getPath('userData'), 'response-cache', projectId);
+    if (!fs.existsSync(cacheDirectory)) return 0;
+    const cachedCount = fs.readdirSync(cacheDirectory).length;
+    fs.rmSync(cacheDirectory, { recursive: true, force: true });
+    return cachedCount;
+  });
+
   // Add flow execution handler
-  ipcMain.handle('execute-flow', async (event, code) => {
+  // The run history record of the run is ended here as well, in case its execution window is closed before the flow ends
+  ipcMain.handle('execute-flow', async (event, code, runDirectory, runId) => {
     const mainWindow = BrowserWindow.getFocusedWindow();
     if (!mainWindow) {
       throw new Error('No focused window found');
@@ -148,75 +202,13 @@ function registerIpcHandlers() {
         console.error('[FLOW_DEBUG] Error checking dependencies:', e);
       }
 
-      // Create temporary directory for this execution
-      const tempDir = path.join(app.getPath('temp'), 'aitomics-flow');
-      console.log('[FLOW_DEBUG] Creating temp directory:', tempDir);
-      try {
-        // Clean up any existing temp directory
-        if (fs.existsSync(tempDir)) {
-          console.log('[FLOW_DEBUG] Cleaning up existing temp directory');
-          fs.rmSync(tempDir, { recursive: true, force: true });
-        }
-        fs.mkdirSync(tempDir, { recursive: true });
-        console.log('[FLOW_DEBUG] Temp directory created successfully');
-      } catch (e) {
-        console.error('[FLOW_DEBUG] Failed to create temp directory:', e);
-        throw new Error(`Failed to create temp directory: ${e.message}`);
+      if (runDirectory) {
+        updateFlowRun(runDirectory, { status: 'running', updatedAt: new Date().toISOString() });
       }
 
-      // Create a symbolic link to the prepared node_modules
-      const tempNodeModules = path.join(tempDir, 'node_modules');
-      try {
-        console.log('[FLOW_DEBUG] Creating symbolic link from:', path.join(flowDepsDir, 'node_modules'), 'to:', tempNodeModules);
-        // Verify source exists before creating symlink
-        const sourcePath = path.join(flowDepsDir, 'node_modules');
-        if (!fs.existsSync(sourcePath)) {
-          throw new Error(`Source node_modules directory does not exist: ${sourcePath}`);
-        }
-        fs.symlinkSync(sourcePath, tempNodeModules, 'dir');
-        console.log('[FLOW_DEBUG] Created symbolic link to prepared node_modules');
-        
-        // Verify the symlink was created correctly
-        if (!fs.existsSync(tempNodeModules)) {
-          throw new Error('Symbolic link was not created successfully');
-        }
-        console.log('[FLOW_DEBUG] Verified symbolic link exists');
-        
-        // Check if csv-parse is accessible through the symlink
-        const csvParsePath = path.join(tempNodeModules, 'csv-parse');
-        console.log('[FLOW_DEBUG] Checking csv-parse through symlink:');
-        console.log('[FLOW_DEBUG] - csv-parse exists:', fs.existsSync(csvParsePath));
-        if (fs.existsSync(csvParsePath)) {
-          console.log('[FLOW_DEBUG] - csv-parse contents:', fs.readdirSync(csvParsePath));
-        }
-      } catch (e) {
-        console.error('[FLOW_DEBUG] Failed to create symbolic link:', e);
-        // Clean up temp directory before rethrowing
-        try {
-          fs.rmSync(tempDir, { recursive: true, force: true });
-        } catch (cleanupError) {
-          console.error('[FLOW_DEBUG] Failed to clean up temp directory after symlink error:', cleanupError);
-        }
-        throw new Error(`Failed to create symbolic link: ${e.message}`);
-      }
-
-      // Copy the package.json from the prepared dependencies
-      try {
-        fs.copyFileSync(
-          path.join(flowDepsDir, 'package.json'),
-          path.join(tempDir, 'package.json')
-        );
-        console.log('[FLOW_DEBUG] Copied package.json from prepared dependencies');
-      } catch (e) {
-        console.error('[FLOW_DEBUG] Failed to copy package.json:', e);
-        // Clean up temp directory before rethrowing
-        try {
-          fs.rmSync(tempDir, { recursive: true, force: true });
-        } catch (cleanupError) {
-          console.error('[FLOW_DEBUG] Failed to clean up temp directory after copy error:', cleanupError);
-        }
-        throw new Error(`Failed to copy package.json: ${e.message}`);
-      }
+      // Create temporary directory for this execution
+      const tempDir = path.join(app.getPath('temp'), 'aitomics-flow');
+      const tempNodeModules = prepareFlowWorkspace(flowDepsDir, tempDir);
 
       // Create the flow execution file
       const tempFile = path.join(tempDir, `flow-${Date.now()}.js`);
@@ -224,168 +216,7 @@ function registerIpcHandlers() {
 
       // Wrap the code to handle console output and module resolution
       console.log('[FLOW_DEBUG] Writing wrapped code to temp file');
-      const wrappedCode = [
-        // Set up module resolution
-        "const Module = require('module');",
-        "const originalResolveFilename = Module._resolveFilename;",
-        "const path = require('path');",
-        "const fs = require('fs');",
-        "",
-        // Override module resolution to include our paths
-        "Module._resolveFilename = function(request, parent, isMain, options) {",
-        "  console.log('[FLOW_DEBUG] Resolving module:', request);",
-        "  console.log('[FLOW_DEBUG] Parent module:', parent ? parent.filename : 'none');",
-        "  try {",
-        "    // First try the original resolution",
-        "    const result = originalResolveFilename(request, parent, isMain, options);",
-        "    console.log('[FLOW_DEBUG] Original resolution succeeded:', result);",
-        "    return result;",
-        "  } catch (err) {",
-        "    console.log('[FLOW_DEBUG] Original resolution failed:', err.message);",
-        "    // Try to resolve in our node_modules",
-        `    const additionalPaths = ${JSON.stringify([tempNodeModules])};`,
-        "    console.log('[FLOW_DEBUG] Trying additional paths:', additionalPaths);",
-        "    for (const nodeModulesPath of additionalPaths) {",
-        "      try {",
-        "        // Try direct resolution first",
-        "        console.log('[FLOW_DEBUG] Trying direct resolution in:', nodeModulesPath);",
-        "        const fullPath = require.resolve(request, { paths: [nodeModulesPath] });",
-        "        if (fullPath) {",
-        "          console.log('[FLOW_DEBUG] Direct resolution succeeded:', fullPath);",
-        "          return fullPath;",
-        "        }",
-        "      } catch (e) {",
-        "        console.log('[FLOW_DEBUG] Direct resolution failed:', e.message);",
-        "        // If direct resolution fails, try to find the package.json and resolve from there",
-        "        try {",
-        "          const packageName = request.split('/')[0];",
-        "          const packageJsonPath = path.join(nodeModulesPath, packageName, 'package.json');",
-        "          console.log('[FLOW_DEBUG] Looking for package.json at:', packageJsonPath);",
-        "          if (fs.existsSync(packageJsonPath)) {",
-        "            console.log('[FLOW_DEBUG] Found package.json');",
-        "            const packageJson = require(packageJsonPath);",
-        "            const mainFile = packageJson.main || 'index.js';",
-        "            const mainPath = path.join(nodeModulesPath, packageName, mainFile);",
-        "            console.log('[FLOW_DEBUG] Looking for main file at:', mainPath);",
-        "            if (fs.existsSync(mainPath)) {",
-        "              console.log('[FLOW_DEBUG] Found main file');",
-        "              return mainPath;",
-        "            }",
-        "            // If main file doesn't exist, try index.js",
-        "            const indexPath = path.join(nodeModulesPath, packageName, 'index.js');",
-        "            console.log('[FLOW_DEBUG] Looking for index.js at:', indexPath);",
-        "            if (fs.existsSync(indexPath)) {",
-        "              console.log('[FLOW_DEBUG] Found index.js');",
-        "              return indexPath;",
-        "            }",
-        "          }",
-        "        } catch (packageErr) {",
-        "          console.log('[FLOW_DEBUG] Package resolution failed:', packageErr.message);",
-        "        }",
-        "      }",
-        "    }",
-        "    // If all resolution attempts fail, throw the original error",
-        "    console.error('[FLOW_DEBUG] Module resolution failed for:', request);",
-        "    console.error('[FLOW_DEBUG] Tried paths:', additionalPaths);",
-        "    throw err;",
-        "  }",
-        "};",
-        "",
-        // Add debug logging for module resolution
-        "const originalRequire = Module.prototype.require;",
-        "Module.prototype.require = function(request) {",
-        "  try {",
-        "    console.log('[FLOW_DEBUG] Requiring module:', request);",
-        "    const result = originalRequire.apply(this, arguments);",
-        "    console.log('[FLOW_DEBUG] Successfully required:', request);",
-        "    return result;",
-        "  } catch (err) {",
-        "    console.error('[FLOW_DEBUG] Failed to require:', request);",
-        "    console.error('[FLOW_DEBUG] Error:', err.message);",
-        "    throw err;",
-        "  }",
-        "};",
-        "",
-        // Override console methods to use a single channel
-        "const originalConsole = console;",
-        "console = {",
-        "  log: (...args) => {",
-        "    const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)).join(' ');",
-        "    process.stdout.write(JSON.stringify({ type: 'log', message }) + '\\n');",
-        "  },",
-        "  error: (...args) => {",
-        "    const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)).join(' ');",
-        "    process.stdout.write(JSON.stringify({ type: 'error', message }) + '\\n');",
-        "  },",
-        "  warn: (...args) => {",
-        "    const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)).join(' ');",
-        "    process.stdout.write(JSON.stringify({ type: 'warn', message }) + '\\n');",
-        "  }",
-        "};",
-        "",
-        // Add status messages at the start
-        "console.log('Starting flow execution...');",
-        "",
-        // Add process event handlers
-        "process.on('exit', (code) => {",
-        "  const message = code === 0 ? 'Flow execution completed successfully' : `Flow execution failed with code ${code}`;",
-        "  console.log(message);",
-        "});",
-        "",
-        "process.on('uncaughtException', (error) => {",
-        "  console.error('Uncaught exception:', error.message);",
-        "  console.error('Stack trace:', error.stack);",
-        "  process.exit(1);",
-        "});",
-        "",
-        // Add stdin handler for termination
-        "process.stdin.on('data', (data) => {",
-        "  try {",
-        "    const message = JSON.parse(data.toString());",
-        "    if (message.type === 'terminate') {",
-        "      console.error('[FLOW_ERROR] Terminated by user');",
-        "      process.exit(1);",
-        "    }",
-        "  } catch (e) {",
-        "    // Ignore parsing errors",
-        "  }",
-        "});",
-        "",
-        // Wrap the flow execution in a Promise and ensure proper cleanup
-        "new Promise(async (resolve, reject) => {",
-        "  try {",
-        "    // Execute the flow code and await its completion",
-        "    // The generated code creates a flowExecutionPromise that we need to await",
-        code,
-        "",
-        "    // Wait for the flow execution to complete",
-        "    const result = await flowExecutionPromise;",
-        "",
-        "    // Clean up temporary files only after flow execution is complete",
-        "    try {",
-        `      fs.unlinkSync(${JSON.stringify(path.join(tempDir, 'package.json'))});`,
-        "      fs.rmSync(tempNodeModules, { recursive: true, force: true });",
-        "    } catch (e) {",
-        "      // Ignore cleanup errors",
-        "    }",
-        "",
-        "    // Log completion and resolve with the result",
-        "    console.log('Flow execution completed successfully');",
-        "    resolve(result);",
-        "  } catch (error) {",
-        "    // Log error and reject",
-        "    console.error('Flow execution failed:', error.message);",
-        "    console.error('Stack trace:', error.stack);",
-        "    reject(error);",
-        "  }",
-        "}).then((result) => {",
-        "  // Ensure process exits after successful execution",
-        "  process.exit(0);",
-        "}).catch((error) => {",
-        "  // Ensure process exits after failed execution",
-        "  process.exit(1);",
-        "});"
-      ].join('\n');
+      const wrappedCode = wrapFlowCode(code, { tempDir, tempNodeModules });
 
       fs.writeFileSync(tempFile, wrappedCode);
       console.log('[FLOW_DEBUG] Wrote wrapped code to temp file');
@@ -422,28 +253,26 @@ function registerIpcHandlers() {
       console.log('[FLOW_DEBUG] Using Node.js executable:', nodeExecutable);
       console.log('[FLOW_DEBUG] Node.js executable exists:', fs.existsSync(nodeExecutable));
 
+      const flowEnv = {
+        ...process.env,
+        NODE_PATH: tempNodeModules,
+        FORCE_COLOR: '1',
+        DEBUG_COLORS: '1',
+        ELECTRON_RUN_AS_NODE: '1'  // Important: Run as Node.js process
+      };
+
       // Store the child process reference
       console.log('[FLOW_DEBUG] Spawning child process with:', {
         nodeExecutable,
         tempFile,
-        env: {
-          ...process.env,
-          NODE_PATH: tempNodeModules,
-          FORCE_COLOR: '1',
-          DEBUG_COLORS: '1',
-          ELECTRON_RUN_AS_NODE: '1'  // Important: Run as Node.js process
-        }
+        env: flowEnv
       });
 
+      // The API key of the provider is passed in the environment only, it is left out of the log above
+      const provider = { ...DEFAULT_LLM_PROVIDER, ...(appStore.get('llmProvider') || {}) };
       currentFlowProcess = spawn(nodeExecutable, [tempFile], {
         stdio: ['pipe', 'pipe', 'pipe'],
-        env: {
-          ...process.env,
-          NODE_PATH: tempNodeModules,
-          FORCE_COLOR: '1',
-          DEBUG_COLORS: '1',
-          ELECTRON_RUN_AS_NODE: '1'  // Important: Run as Node.js process
-        },
+        env: { ...flowEnv, ...llmApiKeyEnv(provider) },
         shell: false,
         detached: false  // Ensure process is not detached
       });
@@ -483,6 +312,19 @@ function registerIpcHandlers() {
 
         sendDebugLog('Starting flow execution process');
 
+        // Time a manual coding node waits on the coder does not count towards the timeout
+        const holdTimeoutForCoder = (message) => {
+          if (!message.startsWith('[FLOW_UI_LOG]')) return;
+          try {
+            const logData = JSON.parse(message.replace('[FLOW_UI_LOG]', '').trim());
+            if (logData.type === 'manual_coding_request' && flowTimeoutControl) {
+              flowTimeoutControl.pause(logData.requestId);
+            }
+          } catch (e) {
+            // Not a UI log the timeout depends on
+          }
+        };
+
         // Helper function to send logs
         const sendLog = (line) => {
           try {
@@ -553,30 +395,13 @@ function registerIpcHandlers() {
             buffer = buffer.slice(newlineIndex + 1);
             
             if (line.trim()) {
-              try {
-                // Try to parse as JSON first
-                const logData = JSON.parse(line);
-                const message = logData.type === 'error' ? `[FLOW_ERROR] ${logData.message}` :
-                              logData.type === 'warn' ? `[FLOW_WARN] ${logData.message}` :
-                              logData.message;
-                
-                const cleanMessage = message.trim();
-                const uniqueKey = `${logData.type}:${cleanMessage}`;
-                
-                if (cleanMessage && !sentMessages.has(uniqueKey)) {
-                  sentMessages.add(uniqueKey);
-                  mainWindow.webContents.send('flow-log', cleanMessage);
-                }
-              } catch (e) {
-                // If not JSON, treat as plain message
-                const cleanMessage = line.trim();
-                if (cleanMessage) {
-                  const uniqueKey = `plain:${cleanMessage}`;
-                  if (!sentMessages.has(uniqueKey)) {
-                    sentMessages.add(uniqueKey);
-                    mainWindow.webContents.send('flow-log', cleanMessage);
-                  }
-                }
+              const { type, message: cleanMessage } = formatFlowOutputLine(line);
+              const uniqueKey = `${type}:${cleanMessage}`;
+              holdTimeoutForCoder(cleanMessage);
+
+              if (cleanMessage && !sentMessages.has(uniqueKey)) {
+                sentMessages.add(uniqueKey);
+                mainWindow.webContents.send('flow-log', cleanMessage);
               }
             }
           }
@@ -588,15 +413,7 @@ function registerIpcHandlers() {
           
           // Process any remaining buffer
           if (buffer.trim()) {
-            try {
-              const logData = JSON.parse(buffer);
-              const message = logData.type === 'error' ? `[FLOW_ERROR] ${logData.message}` :
-                            logData.type === 'warn' ? `[FLOW_WARN] ${logData.message}` :
-                            logData.message;
-              mainWindow.webContents.send('flow-log', message.trim());
-            } catch (e) {
-              mainWindow.webContents.send('flow-log', buffer.trim());
-            }
+            mainWindow.webContents.send('flow-log', formatFlowOutputLine(buffer).message);
           }
 
           // Clean up the temporary file
@@ -606,6 +423,16 @@ function registerIpcHandlers() {
             console.error('[FLOW_DEBUG] Error cleaning up temp file:', e);
           }
 
+          if (runDirectory) {
+            updateFlowRun(runDirectory, {
+              status: code === 0 ? 'completed' : 'interrupted',
+              updatedAt: new Date().toISOString()
+            });
+          }
+          if (runId) {
+            endRunRecord(runId, code === 0 ? 'completed' : 'failed');
+          }
+
           if (code === 0) {
             resolve();
           } else {
@@ -616,18 +443,65 @@ function registerIpcHandlers() {
           }
         });
 
-        // Set a timeout
-        setTimeout(() => {
-          sendDebugLog('Flow execution timed out');
-          currentFlowProcess.kill();
-          reject(new Error('Flow execution timed out after 5 minutes'));
-        }, 300000); // 5 minute timeout
+        // Set a timeout, time spent paused does not count towards it
+        let remainingTime = 300000; // 5 minute timeout
+        let timeoutStartedAt = Date.now();
+        let timeoutHandle = null;
+        const startTimeout = () => {
+          timeoutStartedAt = Date.now();
+          timeoutHandle = setTimeout(() => {
+            sendDebugLog('Flow execution timed out');
+            currentFlowProcess.kill();
+            reject(new Error('Flow execution timed out after 5 minutes'));
+          }, remainingTime);
+        };
+        // The timeout runs while nothing holds it, holds are the user pausing and open manual coding requests
+        const timeoutHolds = new Set();
+        flowTimeoutControl = {
+          pause: (hold = 'user') => {
+            if (timeoutHolds.has(hold)) return;
+            timeoutHolds.add(hold);
+            if (timeoutHolds.size === 1) {
+              clearTimeout(timeoutHandle);
+              remainingTime -= Date.now() - timeoutStartedAt;
+            }
+          },
+          resume: (hold = 'user') => {
+            if (timeoutHolds.delete(hold) && timeoutHolds.size === 0) {
+              startTimeout();
+            }
+          }
+        };
+        startTimeout();
       });
     } catch (error) {
       throw error;
     }
   });
 
+  // Add handlers to pause and resume the flow between items and transformations
+  ipcMain.handle('pause-flow', async () => {
+    if (currentFlowProcess && currentFlowProcess.stdin.writable) {
+      currentFlowProcess.stdin.write(JSON.stringify({ type: 'pause' }) + '\n');
+      if (flowTimeoutControl) flowTimeoutControl.pause();
+    }
+  });
+
+  ipcMain.handle('resume-flow', async () => {
+    if (currentFlowProcess && currentFlowProcess.stdin.writable) {
+      currentFlowProcess.stdin.write(JSON.stringify({ type: 'resume' }) + '\n');
+      if (flowTimeoutControl) flowTimeoutControl.resume();
+    }
+  });
+
+  // Answer an item a manual coding node waits on, a skipped item fails for that node
+  ipcMain.handle('submit-manual-code', async (event, { requestId, label, skipped }) => {
+    if (currentFlowProcess && currentFlowProcess.stdin.writable) {
+      currentFlowProcess.stdin.write(JSON.stringify({ type: 'manual_code', requestId, label, skipped }) + '\n');
+      if (flowTimeoutControl) flowTimeoutControl.resume(requestId);
+    }
+  });
+
   // Add handler to terminate the flow
   ipcMain.handle('terminate-flow', async () => {
     if (currentFlowProcess) {
@@ -808,6 +682,62 @@ function registerIpcHandlers() {
     const projects = store.get('projects') || [];
     const updatedProjects = projects.filter(p => p.id !== projectId);
     store.set('projects', updatedProjects);
+    const runs = runHistoryStore.get('runs') || [];
+    runHistoryStore.set('runs', runs.filter(r => r.projectId !== projectId));
+    // The project's run directories go with it, also those of runs that were never recorded
+    const projectRunsDirectory = path.join(runsDirectory(), projectId);
+    if (isInsideRunsDirectory(projectRunsDirectory)) {
+      fs.rmSync(projectRunsDirectory, { recursive: true, force: true });
+    }
+    return true;
+  });
+
+  // IPC handlers for run history
+  // The store only keeps a summary of each run, its outputs and logs are written to its run directory
+  ipcMain.handle('save-run-record', (event, record) => {
+    // Records saved with their outputs and logs by earlier versions are moved out of the store as well
+    const runs = (runHistoryStore.get('runs') || []).map(storeRunDetails);
+    const summary = storeRunDetails(record);
+    const index = runs.findIndex(r => r.id === summary.id);
+
+    if (index !== -1) {
+      runs[index] = summary;
+    } else {
+      runs.push(summary);
+    }
+
+    // Drop the oldest runs of the project once it has too many
+    const projectRuns = runs
+      .filter(r => r.projectId === summary.projectId)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+    const droppedIds = new Set(projectRuns.slice(MAX_RUNS_PER_PROJECT).map(r => r.id));
+    const keptRuns = runs.filter(r => !droppedIds.has(r.id));
+
+    runHistoryStore.set('runs', keptRuns);
+    deleteRunFiles(runs.filter(r => droppedIds.has(r.id)), keptRuns);
+    return summary;
+  });
+
+  ipcMain.handle('get-run-history', (event, projectId) => {
+    const runs = runHistoryStore.get('runs') || [];
+    return runs
+      .filter(r => r.projectId === projectId)
+      .map(({ outputs, logs, ...summary }) => summary)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  });
+
+  // Get a run with its outputs and logs, to reopen it or compare it with another run
+  ipcMain.handle('get-run-record', (event, runId) => {
+    const runs = runHistoryStore.get('runs') || [];
+    const run = runs.find(r => r.id === runId);
+    return run ? loadRunDetails(run) : null;
+  });
+
+  ipcMain.handle('delete-run-record', (event, runId) => {
+    const runs = runHistoryStore.get('runs') || [];
+    const keptRuns = runs.filter(r => r.id !== runId);
+    runHistoryStore.set('runs', keptRuns);
+    deleteRunFiles(runs.filter(r => r.id === runId), keptRuns);
     return true;
   });
 
@@ -895,6 +825,73 @@ function registerIpcHandlers() {
     }
   });
 
+  // Save the per-node results a flow has reported so far
+  ipcMain.handle('save-intermediate-results', async (event, { projectName, results }) => {
+    const win = BrowserWindow.getFocusedWindow();
+    const { filePath } = await dialog.showSaveDialog(win, {
+      title: 'Save Intermediate Results',
+      defaultPath: `${(projectName || 'flow').toLowerCase().replace(/\s+/g, '-')}-results.json`,
+      filters: [
+        { name: 'JSON', extensions: ['json'] },
+        { name: 'CSV', extensions: ['csv'] }
+      ],
+    });
+    if (!filePath) return null;
+
+    if (path.extname(filePath).toLowerCase() === '.csv') {
+      const columns = ['nodeId', 'nodeName', 'type', 'input', 'output', 'error', 'errorMessage'];
+      const escapeCell = (value) => {
+        const text = value === undefined || value === null ? ''
+          : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+      const rows = results.map(result => columns.map(column => escapeCell(result[column])).join(','));
+      fs.writeFileSync(filePath, [columns.join(','), ...rows].join('\n'), 'utf-8');
+    } else {
+      // Group the results by node, keeping the order they were reported in
+      const nodes = [];
+      for (const { nodeId, nodeName, type, ...item } of results) {
+        let node = nodes.find(n => n.nodeId === nodeId && n.nodeName === nodeName);
+        if (!node) {
+          node = { nodeId, nodeName, type, items: [] };
+          nodes.push(node);
+        }
+        node.items.push(item);
+      }
+      fs.writeFileSync(filePath, JSON.stringify({ savedAt: new Date().toISOString(), nodes }, null, 2), 'utf-8');
+    }
+    return filePath;
+  });
+
+  // Save adjudicated items as a dataset an import node can read
+  ipcMain.handle('save-adjudications', async (event, { name, rows }) => {
+    const win = BrowserWindow.getFocusedWindow();
+    const { filePath } = await dialog.showSaveDialog(win, {
+      title: 'Save Adjudicated Dataset',
+      defaultPath: `${(name || 'adjudicated').toLowerCase().replace(/\s+/g, '-')}.json`,
+      filters: [
+        { name: 'JSON', extensions: ['json'] },
+        { name: 'CSV', extensions: ['csv'] }
+      ],
+    });
+    if (!filePath) return null;
+
+    if (path.extname(filePath).toLowerCase() === '.csv') {
+      // Columns of all rows in the order they first appear
+      const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+      const escapeCell = (value) => {
+        const text = value === undefined || value === null ? ''
+          : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      };
+      const lines = rows.map(row => columns.map(column => escapeCell(row[column])).join(','));
+      fs.writeFileSync(filePath, [columns.join(','), ...lines].join('\n'), 'utf-8');
+    } else {
+      fs.writeFileSync(filePath, JSON.stringify(rows, null, 2), 'utf-8');
+    }
+    return filePath;
+  });
+
   // Add CSV parsing handler
   ipcMain.handle('parse-csv', async (event, filePath) => {
     try {
@@ -909,6 +906,31 @@ function registerIpcHandlers() {
     }
   });
 
+  // Parse an input file into the records an import node passes on, the same way flows read it
+  ipcMain.handle('parse-input-file', async (event, filePath, options = {}) => {
+    return parseInputFile(filePath, options);
+  });
+
+  // List the sheets of a spreadsheet, import nodes read one of them
+  ipcMain.handle('get-spreadsheet-sheets', async (event, filePath) => {
+    try {
+      return spreadsheetSheets(filePath);
+    } catch (error) {
+      console.error('Error reading spreadsheet sheets:', error);
+      return [];
+    }
+  });
+
+  // Summarize the items an import node reads, files that cannot be read report why instead
+  ipcMain.handle('preview-input-file', async (event, filePath, options = {}) => {
+    try {
+      return previewItems(await parseInputFile(filePath, options));
+    } catch (error) {
+      console.error('Error previewing input file:', error);
+      return { rowCount: 0, rows: [], columns: [], error: error.message };
+    }
+  });
+
   // Add IPC handler for opening external links
   ipcMain.handle('open-external-link', async (event, url) => {
     await shell.openExternal(url);
@@ -926,20 +948,39 @@ function registerIpcHandlers() {
     }
   });
 
-  // Add handler for fetching LM Studio models
+  // LLM provider profile, stored in the app settings
+  ipcMain.handle('get-llm-provider', () => {
+    return { ...DEFAULT_LLM_PROVIDER, ...(appStore.get('llmProvider') || {}) };
+  });
+
+  ipcMain.handle('save-llm-provider', (event, provider) => {
+    appStore.set('llmProvider', provider);
+    return provider;
+  });
+
+  // Add handler for fetching the models of the configured provider
   ipcMain.handle('fetch-lm-studio-models', async () => {
+    const provider = { ...DEFAULT_LLM_PROVIDER, ...(appStore.get('llmProvider') || {}) };
     try {
-      const response = await fetch('http://127.0.0.1:1234/api/v0/models');
+      const baseUrl = provider.baseUrl.replace(/\/+$/, '');
+      const modelsEndpoint = provider.modelsEndpoint.replace(/^\/+/, '');
+      const headers = {};
+      if (provider.apiKey) {
+        const headerName = provider.apiKeyHeader || 'Authorization';
+        headers[headerName] = headerName.toLowerCase() === 'authorization' ? `Bearer ${provider.apiKey}` : provider.apiKey;
+      }
+
+      const response = await fetch(`${baseUrl}:${provider.port}/${modelsEndpoint}`, { headers });
       if (!response.ok) {
         throw new Error('Failed to fetch models');
       }
       const data = await response.json();
       return { success: true, data: data.data || [] };
     } catch (error) {
-      console.error('Error fetching LM Studio models:', error);
+      console.error(`Error fetching ${provider.name} models:`, error);
       return { 
         success: false, 
-        error: error.message || 'Failed to fetch models. Please ensure LM Studio is running and developer mode is enabled.'
+        error: error.message || `Failed to fetch models. Please ensure ${provider.name} is running.`
       };
     }
   });
@@ -1307,6 +1348,7 @@ function createWindow() {
 app.whenReady().then(() => {
   console.log('App is ready, initializing...');
   registerIpcHandlers();
+  endInterruptedRunRecords();
   isAppReady = true;
   createWindow();
 }).catch(err => {
@@ -1341,4 +1383,119 @@ async function checkAndUpdateDependencies() {
   }
 
   return flowDepsDir;
-} 
\ No newline at end of file
+} 
+
+// Function to update the manifest of a flow run directory
+function updateFlowRun(runDirectory, changes) {
+  const manifestPath = path.join(runDirectory, 'run.json');
+  try {
+    const manifest = fs.existsSync(manifestPath)
+      ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+      : {};
+    fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, ...changes }, null, 2));
+  } catch (e) {
+    console.error('[FLOW_DEBUG] Failed to update run manifest:', e);
+  }
+}
+
+// Directory of the run directories, one directory per project
+function runsDirectory() {
+  return path.join(app.getPath('userData'), 'runs');
+}
+
+// Function to check that a path is inside the runs directory, only files there are deleted with the run history
+function isInsideRunsDirectory(filePath) {
+  const relativePath = path.relative(runsDirectory(), filePath);
+  return relativePath !== '' && !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+// Function to get the file holding the outputs and logs of a run, in its checkpoint directory when it has one.
+// Resumed runs share the directory of the run they continue, so the file is named after the run.
+function runDetailsPath(run) {
+  const runDirectory = run.runDirectory || path.join(runsDirectory(), run.projectId, run.id);
+  return path.join(runDirectory, `record-${run.id}.json`);
+}
+
+// Function to write the outputs and logs of a run to its directory, returns the summary kept in the run history store
+function storeRunDetails(run) {
+  const { outputs, logs, ...summary } = run;
+  if (outputs === undefined && logs === undefined) return run;
+  const detailsPath = runDetailsPath(run);
+  fs.mkdirSync(path.dirname(detailsPath), { recursive: true });
+  fs.writeFileSync(detailsPath, JSON.stringify({ outputs: outputs || [], logs: logs || [] }));
+  return summary;
+}
+
+// Function to read the outputs and logs of a run back into its record
+function loadRunDetails(summary) {
+  // Runs saved by earlier versions still hold them until the next run is saved
+  if (summary.outputs !== undefined) return summary;
+  try {
+    return { ...summary, ...JSON.parse(fs.readFileSync(runDetailsPath(summary), 'utf-8')) };
+  } catch (e) {
+    console.error(`Failed to read the outputs of run ${summary.id}:`, e);
+    return { ...summary, outputs: [], logs: [] };
+  }
+}
+
+// Function to end a run the history still lists as running. The execution window saves the full record
+// when the run ends, this keeps the status right when the window was closed before.
+function endRunRecord(runId, status) {
+  const runs = runHistoryStore.get('runs') || [];
+  const index = runs.findIndex(r => r.id === runId);
+  if (index === -1 || runs[index].status !== 'running') return;
+  runs[index] = { ...runs[index], status, endedAt: new Date().toISOString() };
+  runHistoryStore.set('runs', runs);
+}
+
+// Function to end the runs a previous session of the app left running, their flow stopped when it quit
+function endInterruptedRunRecords() {
+  const runs = runHistoryStore.get('runs') || [];
+  if (!runs.some(r => r.status === 'running')) return;
+  runHistoryStore.set('runs', runs.map(r => r.status === 'running' ? { ...r, status: 'terminated' } : r));
+}
+
+// Function to delete the files of dropped runs, and their run directory once no kept run shares it
+function deleteRunFiles(droppedRuns, keptRuns) {
+  const keptDirectories = new Set(keptRuns.map(run => path.dirname(runDetailsPath(run))));
+  for (const run of droppedRuns) {
+    const runDirectory = path.dirname(runDetailsPath(run));
+    if (!isInsideRunsDirectory(runDirectory)) continue;
+    try {
+      fs.rmSync(keptDirectories.has(runDirectory) ? runDetailsPath(run) : runDirectory, { recursive: true, force: true });
+    } catch (e) {
+      console.error(`Failed to delete the files of run ${run.id}:`, e);
+    }
+  }
+}
+
+// The first items, and every attribute in the dot notation of Extract JSON Attribute with its types and empty count
+function previewItems(items, rowLimit = 5, maxDepth = 3) {
+  const columns = new Map();
+  const collect = (value, attributePath, depth) => {
+    if (value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0 && depth < maxDepth) {
+      Object.entries(value).forEach(([key, child]) => collect(child, attributePath ? `${attributePath}.${key}` : key, depth + 1));
+      return;
+    }
+    if (!columns.has(attributePath)) {
+      columns.set(attributePath, { path: attributePath, types: new Set(), filled: 0 });
+    }
+    // Missing attributes, null and empty strings count as empty
+    if (value === null || value === undefined || value === '') return;
+    const column = columns.get(attributePath);
+    column.types.add(Array.isArray(value) ? 'array' : typeof value);
+    column.filled++;
+  };
+
+  const records = items.filter(item => item && typeof item === 'object' && !Array.isArray(item));
+  records.forEach(record => collect(record, '', 0));
+  return {
+    rowCount: items.length,
+    rows: items.slice(0, rowLimit),
+    columns: Array.from(columns.values()).map(column => ({
+      path: column.path,
+      types: Array.from(column.types),
+      empty: records.length - column.filled
+    }))
+  };
+}
@@ -0,0 +1,318 @@
+const fs = require('fs');
+const path = require('path');
+
+// Create a fresh working directory for a flow run, linking in the prepared flow dependencies
+function prepareFlowWorkspace(flowDepsDir, tempDir, log = console.log) {
+  log('[FLOW_DEBUG] Creating temp directory:', tempDir);
+  try {
+    // Clean up any existing temp directory
+    if (fs.existsSync(tempDir)) {
+      log('[FLOW_DEBUG] Cleaning up existing temp directory');
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+    fs.mkdirSync(tempDir, { recursive: true });
+    log('[FLOW_DEBUG] Temp directory created successfully');
+  } catch (e) {
+    console.error('[FLOW_DEBUG] Failed to create temp directory:', e);
+    throw new Error(`Failed to create temp directory: ${e.message}`);
+  }
+
+  // Create a symbolic link to the prepared node_modules
+  const tempNodeModules = path.join(tempDir, 'node_modules');
+  try {
+    log('[FLOW_DEBUG] Creating symbolic link from:', path.join(flowDepsDir, 'node_modules'), 'to:', tempNodeModules);
+    // Verify source exists before creating symlink
+    const sourcePath = path.join(flowDepsDir, 'node_modules');
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`Source node_modules directory does not exist: ${sourcePath}`);
+    }
+    fs.symlinkSync(sourcePath, tempNodeModules, 'dir');
+    log('[FLOW_DEBUG] Created symbolic link to prepared node_modules');
+
+    // Verify the symlink was created correctly
+    if (!fs.existsSync(tempNodeModules)) {
+      throw new Error('Symbolic link was not created successfully');
+    }
+    log('[FLOW_DEBUG] Verified symbolic link exists');
+
+    // Check if csv-parse is accessible through the symlink
+    const csvParsePath = path.join(tempNodeModules, 'csv-parse');
+    log('[FLOW_DEBUG] Checking csv-parse through symlink:');
+    log('[FLOW_DEBUG] - csv-parse exists:', fs.existsSync(csvParsePath));
+    if (fs.existsSync(csvParsePath)) {
+      log('[FLOW_DEBUG] - csv-parse contents:', fs.readdirSync(csvParsePath));
+    }
+  } catch (e) {
+    console.error('[FLOW_DEBUG] Failed to create symbolic link:', e);
+    // Clean up temp directory before rethrowing
+    try {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      console.error('[FLOW_DEBUG] Failed to clean up temp directory after symlink error:', cleanupError);
+    }
+    throw new Error(`Failed to create symbolic link: ${e.message}`);
+  }
+
+  // Copy the package.json from the prepared dependencies
+  try {
+    fs.copyFileSync(
+      path.join(flowDepsDir, 'package.json'),
+      path.join(tempDir, 'package.json')
+    );
+    log('[FLOW_DEBUG] Copied package.json from prepared dependencies');
+
+    // The generated code reads the files of import nodes with the parsers the app uses
+    fs.copyFileSync(path.join(__dirname, 'input-parsers.js'), path.join(tempDir, 'input-parsers.js'));
+    log('[FLOW_DEBUG] Copied input parsers');
+  } catch (e) {
+    console.error('[FLOW_DEBUG] Failed to copy package.json and input parsers:', e);
+    // Clean up temp directory before rethrowing
+    try {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    } catch (cleanupError) {
+      console.error('[FLOW_DEBUG] Failed to clean up temp directory after copy error:', cleanupError);
+    }
+    throw new Error(`Failed to copy package.json and input parsers: ${e.message}`);
+  }
+
+  return tempNodeModules;
+}
+
+// Wrap generated flow code to handle console output, module resolution and control messages on stdin
+function wrapFlowCode(code, { tempDir, tempNodeModules }) {
+  return [
+    // Set up module resolution
+    "const Module = require('module');",
+    "const originalResolveFilename = Module._resolveFilename;",
+    "const path = require('path');",
+    "const fs = require('fs');",
+    "",
+    // Override module resolution to include our paths
+    "Module._resolveFilename = function(request, parent, isMain, options) {",
+    "  console.log('[FLOW_DEBUG] Resolving module:', request);",
+    "  console.log('[FLOW_DEBUG] Parent module:', parent ? parent.filename : 'none');",
+    "  try {",
+    "    // First try the original resolution",
+    "    const result = originalResolveFilename(request, parent, isMain, options);",
+    "    console.log('[FLOW_DEBUG] Original resolution succeeded:', result);",
+    "    return result;",
+    "  } catch (err) {",
+    "    console.log('[FLOW_DEBUG] Original resolution failed:', err.message);",
+    "    // Try to resolve in our node_modules",
+    `    const additionalPaths = ${JSON.stringify([tempNodeModules])};`,
+    "    console.log('[FLOW_DEBUG] Trying additional paths:', additionalPaths);",
+    "    for (const nodeModulesPath of additionalPaths) {",
+    "      try {",
+    "        // Try direct resolution first",
+    "        console.log('[FLOW_DEBUG] Trying direct resolution in:', nodeModulesPath);",
+    "        const fullPath = require.resolve(request, { paths: [nodeModulesPath] });",
+    "        if (fullPath) {",
+    "          console.log('[FLOW_DEBUG] Direct resolution succeeded:', fullPath);",
+    "          return fullPath;",
+    "        }",
+    "      } catch (e) {",
+    "        console.log('[FLOW_DEBUG] Direct resolution failed:', e.message);",
+    "        // If direct resolution fails, try to find the package.json and resolve from there",
+    "        try {",
+    "          const packageName = request.split('/')[0];",
+    "          const packageJsonPath = path.join(nodeModulesPath, packageName, 'package.json');",
+    "          console.log('[FLOW_DEBUG] Looking for package.json at:', packageJsonPath);",
+    "          if (fs.existsSync(packageJsonPath)) {",
+    "            console.log('[FLOW_DEBUG] Found package.json');",
+    "            const packageJson = require(packageJsonPath);",
+    "            const mainFile = packageJson.main || 'index.js';",
+    "            const mainPath = path.join(nodeModulesPath, packageName, mainFile);",
+    "            console.log('[FLOW_DEBUG] Looking for main file at:', mainPath);",
+    "            if (fs.existsSync(mainPath)) {",
+    "              console.log('[FLOW_DEBUG] Found main file');",
+    "              return mainPath;",
+    "            }",
+    "            // If main file doesn't exist, try index.js",
+    "            const indexPath = path.join(nodeModulesPath, packageName, 'index.js');",
+    "            console.log('[FLOW_DEBUG] Looking for index.js at:', indexPath);",
+    "            if (fs.existsSync(indexPath)) {",
+    "              console.log('[FLOW_DEBUG] Found index.js');",
+    "              return indexPath;",
+    "            }",
+    "          }",
+    "        } catch (packageErr) {",
+    "          console.log('[FLOW_DEBUG] Package resolution failed:', packageErr.message);",
+    "        }",
+    "      }",
+    "    }",
+    "    // If all resolution attempts fail, throw the original error",
+    "    console.error('[FLOW_DEBUG] Module resolution failed for:', request);",
+    "    console.error('[FLOW_DEBUG] Tried paths:', additionalPaths);",
+    "    throw err;",
+    "  }",
+    "};",
+    "",
+    // Add debug logging for module resolution
+    "const originalRequire = Module.prototype.require;",
+    "Module.prototype.require = function(request) {",
+    "  try {",
+    "    console.log('[FLOW_DEBUG] Requiring module:', request);",
+    "    const result = originalRequire.apply(this, arguments);",
+    "    console.log('[FLOW_DEBUG] Successfully required:', request);",
+    "    return result;",
+    "  } catch (err) {",
+    "    console.error('[FLOW_DEBUG] Failed to require:', request);",
+    "    console.error('[FLOW_DEBUG] Error:', err.message);",
+    "    throw err;",
+    "  }",
+    "};",
+    "",
+    // Override console methods to use a single channel
+    "const originalConsole = console;",
+    "console = {",
+    "  log: (...args) => {",
+    "    const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)).join(' ');",
+    "    process.stdout.write(JSON.stringify({ type: 'log', message }) + '\\n');",
+    "  },",
+    "  error: (...args) => {",
+    "    const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)).join(' ');",
+    "    process.stdout.write(JSON.stringify({ type: 'error', message }) + '\\n');",
+    "  },",
+    "  warn: (...args) => {",
+    "    const message = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)).join(' ');",
+    "    process.stdout.write(JSON.stringify({ type: 'warn', message }) + '\\n');",
+    "  }",
+    "};",
+    "",
+    // Add status messages at the start
+    "console.log('Starting flow execution...');",
+    "",
+    // Add process event handlers
+    "process.on('exit', (code) => {",
+    "  const message = code === 0 ? 'Flow execution completed successfully' : `Flow execution failed with code ${code}`;",
+    "  console.log(message);",
+    "});",
+    "",
+    "process.on('uncaughtException', (error) => {",
+    "  console.error('Uncaught exception:', error.message);",
+    "  console.error('Stack trace:', error.stack);",
+    "  process.exit(1);",
+    "});",
+    "",
+    // Pause state, checked by the flow before every item and transformation
+    "let flowPaused = false;",
+    "let resumeCallbacks = [];",
+    "const waitWhilePaused = (position) => {",
+    "  if (!flowPaused) return Promise.resolve();",
+    "  console.log('[FLOW] Execution paused ' + position + ' (' + new Date().toISOString().slice(11, 23) + ')');",
+    "  console.log('[FLOW_UI_LOG] ' + JSON.stringify({ type: 'paused', position }));",
+    "  return new Promise(resolve => resumeCallbacks.push(resolve));",
+    "};",
+    "",
+    // Items of manual coding nodes, answered by the coder in the execution window
+    "let manualCodeRequests = 0;",
+    "const pendingManualCodes = new Map();",
+    "const requestManualCode = ({ node, input, labels, instructions, multiple }) => new Promise((resolve, reject) => {",
+    "  const requestId = 'manual-' + (++manualCodeRequests);",
+    "  pendingManualCodes.set(requestId, { resolve, reject });",
+    "  console.log('[FLOW_UI_LOG] ' + JSON.stringify({",
+    "    type: 'manual_coding_request',",
+    "    requestId,",
+    "    nodeId: node.id,",
+    "    nodeName: node.name,",
+    "    input,",
+    "    labels,",
+    "    instructions,",
+    "    multipleLabels: multiple",
+    "  }));",
+    "});",
+    "",
+    // Add stdin handler for control messages (terminate, pause, resume, manual codes)
+    "let stdinBuffer = '';",
+    "process.stdin.on('data', (data) => {",
+    "  stdinBuffer += data.toString();",
+    "  const lines = stdinBuffer.split('\\n');",
+    "  stdinBuffer = lines.pop();",
+    "  for (const line of lines) {",
+    "    try {",
+    "      const message = JSON.parse(line);",
+    "      if (message.type === 'terminate') {",
+    "        console.error('[FLOW_ERROR] Terminated by user');",
+    "        process.exit(1);",
+    "      } else if (message.type === 'pause' && !flowPaused) {",
+    "        flowPaused = true;",
+    "        console.log('[FLOW] Pause requested, finishing the current step (' + new Date().toISOString().slice(11, 23) + ')');",
+    "      } else if (message.type === 'resume' && flowPaused) {",
+    "        flowPaused = false;",
+    "        console.log('[FLOW] Execution resumed (' + new Date().toISOString().slice(11, 23) + ')');",
+    "        resumeCallbacks.splice(0).forEach(resolve => resolve());",
+    "      } else if (message.type === 'manual_code' && pendingManualCodes.has(message.requestId)) {",
+    "        const pending = pendingManualCodes.get(message.requestId);",
+    "        pendingManualCodes.delete(message.requestId);",
+    "        if (message.skipped) {",
+    "          pending.reject(new Error('Skipped by the coder'));",
+    "        } else {",
+    "          pending.resolve(message.label);",
+    "        }",
+    "      }",
+    "    } catch (e) {",
+    "      // Ignore parsing errors",
+    "    }",
+    "  }",
+    "});",
+    "",
+    // Wrap the flow execution in a Promise and ensure proper cleanup
+    "new Promise(async (resolve, reject) => {",
+    "  try {",
+    "    // Execute the flow code and await its completion",
+    "    // The generated code creates a flowExecutionPromise that we need to await",
+    code,
+    "",
+    "    // Wait for the flow execution to complete",
+    "    const result = await flowExecutionPromise;",
+    "",
+    "    // Clean up temporary files only after flow execution is complete",
+    "    try {",
+    `      fs.unlinkSync(${JSON.stringify(path.join(tempDir, 'package.json'))});`,
+    `      fs.rmSync(${JSON.stringify(tempNodeModules)}, { recursive: true, force: true });`,
+    "    } catch (e) {",
+    "      // Ignore cleanup errors",
+    "    }",
+    "",
+    "    // Log completion and resolve with the result",
+    "    console.log('Flow execution completed successfully');",
+    "    resolve(result);",
+    "  } catch (error) {",
+    "    // Log error and reject",
+    "    console.error('Flow execution failed:', error.message);",
+    "    console.error('Stack trace:', error.stack);",
+    "    reject(error);",
+    "  }",
+    "}).then((result) => {",
+    "  // Ensure process exits after successful execution",
+    "  process.exit(0);",
+    "}).catch((error) => {",
+    "  // Ensure process exits after failed execution",
+    "  process.exit(1);",
+    "});"
+  ].join('\n');
+}
+
+// Environment variable the flow code reads the API key of the LLM provider from, the key is never written into the code
+const LLM_API_KEY_ENV = 'LLM_API_KEY';
+
+// Get the environment variables passing the API key of the LLM provider to the flow process
+function llmApiKeyEnv(provider) {
+  return provider && provider.apiKey ? { [LLM_API_KEY_ENV]: provider.apiKey } : {};
+}
+
+// Turn a line written by the wrapped flow into the message shown to the user
+function formatFlowOutputLine(line) {
+  try {
+    const logData = JSON.parse(line);
+    const message = logData.type === 'error' ? `[FLOW_ERROR] ${logData.message}` :
+                  logData.type === 'warn' ? `[FLOW_WARN] ${logData.message}` :
+                  logData.message;
+    return { type: logData.type, message: message.trim() };
+  } catch (e) {
+    // If not JSON, treat as plain message
+    return { type: 'plain', message: line.trim() };
+  }
+}
+
+module.exports = { prepareFlowWorkspace, wrapFlowCode, formatFlowOutputLine, llmApiKeyEnv };
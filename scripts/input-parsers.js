@@ -0,0 +1,133 @@
+const fs = require('fs');
+const path = require('path');
+const { parse } = require('csv-parse/sync');
+
+// Parsers of the files import nodes read, shared by the app and the generated flow code.
+// The packages for spreadsheets and documents are only loaded when a file needs them.
+
+// Documents an import node reads from a folder, one item per file
+const DOCUMENT_EXTENSIONS = ['txt', 'md', 'docx', 'pdf'];
+
+// Function to get the csv-parse options of a CSV or TSV file from the dialect of its import node
+function csvParseOptions(fileExtension, csv = {}) {
+  return {
+    columns: csv.header !== false,
+    skip_empty_lines: true,
+    bom: csv.bom !== false,
+    delimiter: csv.delimiter || (fileExtension === 'tsv' ? '\t' : ','),
+    quote: csv.quote === '' ? false : (csv.quote || '"'),
+    ...(csv.comment && { comment: csv.comment })
+  };
+}
+
+// Function to read a CSV or TSV file into records, rows of files without a header row get numbered columns
+function parseCsvFile(filePath, fileExtension, csv = {}) {
+  const encoding = csv.encoding || 'utf-8';
+  if (!Buffer.isEncoding(encoding)) {
+    throw new Error(`Unsupported encoding: ${encoding}`);
+  }
+  const rows = parse(fs.readFileSync(filePath, encoding), csvParseOptions(fileExtension, csv));
+  return rows.map(row => Array.isArray(row)
+    ? Object.fromEntries(row.map((value, index) => [`column_${index + 1}`, value]))
+    : row);
+}
+
+// Function to read a JSON Lines file, one JSON record per line and blank lines skipped
+function parseJsonLinesFile(filePath) {
+  return fs.readFileSync(filePath, 'utf-8')
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, number }) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid JSON on line ${number}: ${error.message}`);
+      }
+    });
+}
+
+// Function to list the sheets of a spreadsheet, import nodes read one of them
+function spreadsheetSheets(filePath) {
+  const XLSX = require('xlsx');
+  return XLSX.read(fs.readFileSync(filePath), { type: 'buffer', bookSheets: true }).SheetNames;
+}
+
+// Function to read a sheet of a spreadsheet into records keyed by its header row, the first sheet when none is given
+function parseSpreadsheetFile(filePath, sheet) {
+  const XLSX = require('xlsx');
+  const workbook = XLSX.read(fs.readFileSync(filePath), { type: 'buffer' });
+  const sheetName = sheet || workbook.SheetNames[0];
+  if (!workbook.Sheets[sheetName]) {
+    throw new Error(`Sheet ${JSON.stringify(sheetName)} not found, the file has ${workbook.SheetNames.map(name => JSON.stringify(name)).join(', ')}`);
+  }
+  // Cells are read as they are displayed
+  return XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: '', raw: false });
+}
+
+// Function to extract the plain text of a document
+async function readDocumentText(filePath) {
+  switch (path.extname(filePath).slice(1).toLowerCase()) {
+    case 'docx': {
+      const mammoth = require('mammoth');
+      return (await mammoth.extractRawText({ path: filePath })).value;
+    }
+    case 'pdf': {
+      const pdfParse = require('pdf-parse');
+      return (await pdfParse(fs.readFileSync(filePath))).text;
+    }
+    default:
+      return fs.readFileSync(filePath, 'utf-8');
+  }
+}
+
+// Function to read the documents of a folder into items holding their text, file name and path.
+// Hidden files and the lock files of open Word documents are left out.
+async function readDocumentFolder(folderPath) {
+  const fileNames = fs.readdirSync(folderPath)
+    .filter(fileName => !fileName.startsWith('.') && !fileName.startsWith('~$'))
+    .filter(fileName => DOCUMENT_EXTENSIONS.includes(path.extname(fileName).slice(1).toLowerCase()))
+    .filter(fileName => fs.statSync(path.join(folderPath, fileName)).isFile())
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (fileNames.length === 0) {
+    throw new Error(`No ${DOCUMENT_EXTENSIONS.map(extension => `.${extension}`).join(', ')} files in ${folderPath}`);
+  }
+  const items = [];
+  for (const fileName of fileNames) {
+    const documentPath = path.join(folderPath, fileName);
+    try {
+      items.push({ text: await readDocumentText(documentPath), filename: fileName, path: documentPath });
+    } catch (error) {
+      throw new Error(`Could not read ${fileName}: ${error.message}`);
+    }
+  }
+  return items;
+}
+
+// Function to parse an input file, or a folder of documents, into the items an import node passes on.
+// Options hold the sheet of spreadsheets and the dialect of CSV and TSV files.
+async function parseInputFile(filePath, options = {}) {
+  if (fs.statSync(filePath).isDirectory()) {
+    return readDocumentFolder(filePath);
+  }
+  const fileExtension = path.extname(filePath).slice(1).toLowerCase();
+  switch (fileExtension) {
+    case 'json': {
+      const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return Array.isArray(data) ? data : [data];
+    }
+    case 'jsonl':
+    case 'ndjson':
+      return parseJsonLinesFile(filePath);
+    case 'csv':
+    case 'tsv':
+      return parseCsvFile(filePath, fileExtension, options.csv);
+    case 'xlsx':
+      return parseSpreadsheetFile(filePath, options.sheet);
+    default:
+      // Other files are passed on as a single item
+      return [fs.readFileSync(filePath, 'utf-8')];
+  }
+}
+
+module.exports = { parseInputFile, spreadsheetSheets };
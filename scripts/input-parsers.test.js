@@ -0,0 +1,127 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const XLSX = require('xlsx');
+const { parseInputFile, spreadsheetSheets } = require('./input-parsers');
+
+let dataDir;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'input-parsers-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+// Function to write a file of the test data folder and return its path
+const write = (fileName, content, encoding) => {
+  const filePath = path.join(dataDir, fileName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, encoding);
+  return filePath;
+};
+
+describe('CSV and TSV files', () => {
+  test('reads records keyed by the header row and strips the byte order mark', async () => {
+    const filePath = write('reviews.csv', '\uFEFFid,text\n1,"Great, really"\n\n2,Bad\n');
+    await expect(parseInputFile(filePath)).resolves.toEqual([
+      { id: '1', text: 'Great, really' },
+      { id: '2', text: 'Bad' },
+    ]);
+  });
+
+  test('uses tabs for TSV files', async () => {
+    const filePath = write('reviews.tsv', 'id\ttext\n1\tGreat, really\n');
+    await expect(parseInputFile(filePath)).resolves.toEqual([{ id: '1', text: 'Great, really' }]);
+  });
+
+  test('follows the dialect of the import node', async () => {
+    const filePath = write('reviews.csv', "# exported today\n1;'Great; really'\n2;Bad\n");
+    const options = { csv: { header: false, delimiter: ';', quote: "'", comment: '#' } };
+    await expect(parseInputFile(filePath, options)).resolves.toEqual([
+      { column_1: '1', column_2: 'Great; really' },
+      { column_1: '2', column_2: 'Bad' },
+    ]);
+  });
+
+  test('reads other encodings and rejects unknown ones', async () => {
+    const filePath = write('reviews.csv', 'text\nCafé\n', 'latin1');
+    await expect(parseInputFile(filePath, { csv: { encoding: 'latin1' } })).resolves.toEqual([{ text: 'Café' }]);
+    await expect(parseInputFile(filePath, { csv: { encoding: 'cp1252' } })).rejects.toThrow('Unsupported encoding: cp1252');
+  });
+});
+
+describe('JSON and JSON Lines files', () => {
+  test('passes on the items of an array and a single object as one item', async () => {
+    await expect(parseInputFile(write('items.json', '[{"id":1},{"id":2}]'))).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+    await expect(parseInputFile(write('item.json', '{"id":1}'))).resolves.toEqual([{ id: 1 }]);
+  });
+
+  test('reads one record per line and skips blank lines', async () => {
+    const filePath = write('items.jsonl', '{"id":1}\r\n\n  {"id":2}  \n');
+    await expect(parseInputFile(filePath)).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  test('names the line of an invalid record', async () => {
+    const filePath = write('items.ndjson', '{"id":1}\n\n{"id":\n');
+    await expect(parseInputFile(filePath)).rejects.toThrow('Invalid JSON on line 3');
+  });
+});
+
+describe('spreadsheets', () => {
+  // Function to write a workbook with a sheet per entry of rows
+  const writeWorkbook = (sheets) => {
+    const workbook = XLSX.utils.book_new();
+    for (const [name, rows] of Object.entries(sheets)) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+    }
+    const filePath = path.join(dataDir, 'codes.xlsx');
+    fs.writeFileSync(filePath, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+    return filePath;
+  };
+
+  test('reads the first sheet, or the one the import node names, with empty cells as empty strings', async () => {
+    const filePath = writeWorkbook({
+      Coder1: [['id', 'code'], [1, 'A'], [2]],
+      Coder2: [['id', 'code'], [1, 'B']],
+    });
+
+    expect(spreadsheetSheets(filePath)).toEqual(['Coder1', 'Coder2']);
+    await expect(parseInputFile(filePath)).resolves.toEqual([{ id: '1', code: 'A' }, { id: '2', code: '' }]);
+    await expect(parseInputFile(filePath, { sheet: 'Coder2' })).resolves.toEqual([{ id: '1', code: 'B' }]);
+  });
+
+  test('names the sheets of the file when the sheet is missing', async () => {
+    const filePath = writeWorkbook({ Coder1: [['id'], [1]] });
+    await expect(parseInputFile(filePath, { sheet: 'Coder3' }))
+      .rejects.toThrow('Sheet "Coder3" not found, the file has "Coder1"');
+  });
+});
+
+describe('document folders', () => {
+  test('reads the documents in natural order and leaves out hidden, lock and other files', async () => {
+    write('interviews/interview10.txt', 'tenth');
+    write('interviews/interview2.md', 'second');
+    write('interviews/.DS_Store', 'hidden');
+    write('interviews/~$interview1.docx', 'lock');
+    write('interviews/notes.csv', 'text\nskipped');
+    write('interviews/nested/interview1.txt', 'nested');
+
+    const items = await parseInputFile(path.join(dataDir, 'interviews'));
+    expect(items).toEqual([
+      { text: 'second', filename: 'interview2.md', path: path.join(dataDir, 'interviews', 'interview2.md') },
+      { text: 'tenth', filename: 'interview10.txt', path: path.join(dataDir, 'interviews', 'interview10.txt') },
+    ]);
+  });
+
+  test('names the document that could not be read', async () => {
+    write('interviews/broken.docx', 'not a zip file');
+    await expect(parseInputFile(path.join(dataDir, 'interviews'))).rejects.toThrow('Could not read broken.docx');
+  });
+
+  test('rejects a folder without documents', async () => {
+    fs.mkdirSync(path.join(dataDir, 'empty'));
+    await expect(parseInputFile(path.join(dataDir, 'empty'))).rejects.toThrow('No .txt, .md, .docx, .pdf files in');
+  });
+});
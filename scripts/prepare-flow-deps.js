@@ -86,11 +86,15 @@ async function prepareDependencies() {
   // Define main packages
   const mainPackages = [
     { name: 'csv-parse', path: path.join(rootNodeModules, 'csv-parse') },
+    { name: 'p-limit', path: path.join(rootNodeModules, 'p-limit') },
     { name: 'hash-it', path: path.join(rootNodeModules, 'hash-it') },
     { name: 'yaml', path: path.join(rootNodeModules, 'yaml') },
     { name: 'yaml-schema-validator', path: path.join(rootNodeModules, 'yaml-schema-validator') },
     { name: 'mermaid', path: path.join(rootNodeModules, 'mermaid') },
     { name: 'axios', path: path.join(rootNodeModules, 'axios') },
+    { name: 'xlsx', path: path.join(rootNodeModules, 'xlsx') },
+    { name: 'mammoth', path: path.join(rootNodeModules, 'mammoth') },
+    { name: 'pdf-parse', path: path.join(rootNodeModules, 'pdf-parse') },
     { name: 'aitomics', path: path.join(rootNodeModules, 'aitomics') }
   ];
 
@@ -0,0 +1,415 @@
+#!/usr/bin/env node
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { spawn } = require('child_process');
+const { prepareFlowWorkspace, wrapFlowCode, formatFlowOutputLine, llmApiKeyEnv } = require('./flow-runner');
+
+const rootDir = path.join(__dirname, '..');
+const generatorPath = path.join(rootDir, 'build', 'cli', 'utils', 'flowCodeGenerator.js');
+const flowDepsDir = path.join(rootDir, 'build', 'flow-dependencies');
+
+const UI_LOG_PREFIX = '[FLOW_UI_LOG] ';
+
+const EXIT_SUCCESS = 0;
+const EXIT_FLOW_ERRORS = 1;
+const EXIT_FAILURE = 2;
+
+const usage = `Usage: node scripts/run-flow.js (--project <id|name> | --file <export.json>) [options]
+
+Runs a project flow without opening the app. [FLOW_UI_LOG] events are printed
+to stdout as JSON lines, all other flow output goes to stderr. Flows with manual
+coding nodes need a coder in the app and cannot be run this way.
+
+Options:
+  --project <id|name>   Project to run from the app's saved projects
+  --file <path>         Exported project file (a project, a list of projects or an export)
+  --user-data <dir>     App data directory holding projects.json, actions.json and the
+                        LLM provider in app-settings.json
+                        (defaults to $AITOMICS_USER_DATA or the app's data directory)
+  --max-items <n>       Only process the first n items of every import node
+                        (short for --sample first --sample-size <n>)
+  --sample <mode>       Items of every import node to process: first, random,
+                        stratified or range (default: all items)
+  --sample-size <n>     Items drawn by the first, random and stratified modes
+  --seed <n>            Seed of random and stratified samples (default 0), the same
+                        seed and items give the same sample
+  --stratify-by <attr>  Column or attribute stratified samples are drawn by, dots
+                        separate nested attributes
+  --items <ranges>      Item numbers of the range mode, one-based and inclusive,
+                        e.g. "1-50, 101-150" (implies --sample range)
+  --model <name>        LLM model to use
+  --temperature <n>     LLM temperature (default 0.7)
+  --max-tokens <n>      LLM max tokens (default 2000)
+  --concurrency <n>     Items processed in parallel (defaults to the project's setting)
+  --timeout <seconds>   Abort the run after this many seconds (default 300)
+  --run-dir <dir>       Checkpoint completed items to this directory, running again
+                        with the same directory skips items that were already completed
+  --cache-dir <dir>     Cache LLM responses in this directory and reuse them when the
+                        prompt, model, settings and input are unchanged
+  --debug               Also print [FLOW_DEBUG] output
+  --help                Show this message
+
+Exit codes: 0 on success, 1 if the flow completed but reported errors,
+2 if the flow could not be run or failed.`;
+
+// Function to parse command line arguments into an options object
+function parseArgs(argv) {
+  const options = { debug: false, help: false };
+  const valueFlags = {
+    '--project': 'project',
+    '--file': 'file',
+    '--user-data': 'userData',
+    '--max-items': 'maxItems',
+    '--sample': 'sampleMode',
+    '--sample-size': 'sampleSize',
+    '--seed': 'seed',
+    '--stratify-by': 'stratifyBy',
+    '--items': 'itemRanges',
+    '--model': 'model',
+    '--temperature': 'temperature',
+    '--max-tokens': 'maxTokens',
+    '--concurrency': 'concurrency',
+    '--timeout': 'timeout',
+    '--run-dir': 'runDir',
+    '--cache-dir': 'cacheDir'
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--debug') {
+      options.debug = true;
+    } else if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (valueFlags[arg]) {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[valueFlags[arg]] = value;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  for (const key of ['maxItems', 'sampleSize', 'seed', 'temperature', 'maxTokens', 'concurrency', 'timeout']) {
+    if (options[key] !== undefined) {
+      const value = Number(options[key]);
+      if (Number.isNaN(value) || value < 0) {
+        throw new Error(`Invalid value for ${key}: ${options[key]}`);
+      }
+      options[key] = value;
+    }
+  }
+
+  options.sampling = samplingFromOptions(options);
+  return options;
+}
+
+const SAMPLING_MODES = ['first', 'random', 'stratified', 'range'];
+
+// Function to get the sampling settings of the generated code from the parsed options, undefined to process all items
+function samplingFromOptions(options) {
+  const mode = options.sampleMode || (options.itemRanges !== undefined ? 'range' : options.maxItems !== undefined ? 'first' : undefined);
+  if (!mode) {
+    if (options.sampleSize !== undefined || options.seed !== undefined || options.stratifyBy !== undefined) {
+      throw new Error('Choose a sampling mode with --sample');
+    }
+    return undefined;
+  }
+  if (!SAMPLING_MODES.includes(mode)) {
+    throw new Error(`Invalid value for --sample: ${mode} (expected ${SAMPLING_MODES.join(', ')})`);
+  }
+
+  const count = options.sampleSize !== undefined ? options.sampleSize : options.maxItems;
+  const seed = options.seed !== undefined ? options.seed : 0;
+  if (mode === 'range') {
+    const ranges = String(options.itemRanges || '').trim();
+    if (!/^\d+\s*(-\s*\d+)?(\s*,\s*\d+\s*(-\s*\d+)?)*$/.test(ranges)) {
+      throw new Error(`Invalid value for --items: ${options.itemRanges === undefined ? '(missing)' : options.itemRanges}`);
+    }
+    return { mode, count: count !== undefined ? Math.floor(count) : 0, seed: Math.floor(seed), ranges };
+  }
+  if (count === undefined) {
+    throw new Error(`The ${mode} sample needs --sample-size`);
+  }
+  if (mode === 'stratified' && !String(options.stratifyBy || '').trim()) {
+    throw new Error('The stratified sample needs --stratify-by');
+  }
+  return {
+    mode,
+    count: Math.floor(count),
+    seed: Math.floor(seed),
+    ...(mode === 'stratified' && { attribute: options.stratifyBy.trim() })
+  };
+}
+
+// Function to find the directory where the app keeps its stores
+function resolveUserDataDir(explicitDir) {
+  if (explicitDir) return explicitDir;
+  if (process.env.AITOMICS_USER_DATA) return process.env.AITOMICS_USER_DATA;
+
+  const appDataDir = process.platform === 'darwin'
+    ? path.join(os.homedir(), 'Library', 'Application Support')
+    : process.platform === 'win32'
+      ? (process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'))
+      : (process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'));
+
+  // Packaged builds use the product name, development runs use the package name
+  const candidates = ['Aitomics UI', 'aitomics-ui'].map(name => path.join(appDataDir, name));
+  return candidates.find(dir => fs.existsSync(path.join(dir, 'projects.json'))) || candidates[0];
+}
+
+function readJson(filePath) {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (e) {
+    throw new Error(`Failed to read ${filePath}: ${e.message}`);
+  }
+}
+
+// Function to load the project to run, the custom actions it may reference and the LLM provider
+function loadProject(options) {
+  let projects = [];
+  let actions = [];
+
+  if (options.file) {
+    const data = readJson(options.file);
+    if (Array.isArray(data)) {
+      projects = data;
+    } else if (data && Array.isArray(data.projects)) {
+      projects = data.projects;
+      actions = Array.isArray(data.actions) ? data.actions : [];
+    } else if (data && Array.isArray(data.blocks)) {
+      projects = [data];
+    } else {
+      throw new Error(`No projects found in ${options.file}`);
+    }
+  }
+
+  // Custom actions live in the app's action store unless the export brought its own
+  const userDataDir = resolveUserDataDir(options.userData);
+  const actionsFile = path.join(userDataDir, 'actions.json');
+  if (actions.length === 0 && fs.existsSync(actionsFile)) {
+    actions = readJson(actionsFile).actions || [];
+  }
+
+  if (!options.file) {
+    const projectsFile = path.join(userDataDir, 'projects.json');
+    if (!fs.existsSync(projectsFile)) {
+      throw new Error(`No saved projects found at ${projectsFile}. Use --user-data or --file.`);
+    }
+    projects = readJson(projectsFile).projects || [];
+  }
+
+  // The LLM provider configured in the app, LM Studio on its default port otherwise
+  const settingsFile = path.join(userDataDir, 'app-settings.json');
+  const provider = fs.existsSync(settingsFile) ? readJson(settingsFile).llmProvider : undefined;
+
+  let project;
+  if (options.project) {
+    project = projects.find(p => p.id === options.project) ||
+      projects.find(p => p.name === options.project);
+    if (!project) {
+      throw new Error(`Project not found: ${options.project}`);
+    }
+  } else if (projects.length === 1) {
+    project = projects[0];
+  } else {
+    throw new Error(`Found ${projects.length} projects, select one with --project`);
+  }
+
+  return { project, actions, provider };
+}
+
+// Action of manual coding nodes, which wait for a coder in the app's execution window
+const MANUAL_CODING_ACTION_ID = 'built-in-19';
+
+// Function to generate the flow code with the generator shared with the app
+function generateCode(project, actions, options, provider) {
+  const manualNodes = (project.blocks || []).filter(block => block.actionId === MANUAL_CODING_ACTION_ID);
+  if (manualNodes.length > 0) {
+    throw new Error(`The flow has manual coding nodes (${manualNodes.map(block => `"${block.name || block.id}"`).join(', ')}), ` +
+      'which need a coder in the app. Run it from the app instead.');
+  }
+  if (!fs.existsSync(generatorPath)) {
+    throw new Error('Flow code generator has not been built. Run "npm run build-cli" first.');
+  }
+  const { generateFlowCode } = require(generatorPath);
+
+  let llmConfig = options.model ? {
+    model: options.model,
+    temperature: options.temperature !== undefined ? options.temperature : 0.7,
+    maxTokens: options.maxTokens !== undefined ? options.maxTokens : 2000
+  } : undefined;
+  if (provider) {
+    llmConfig = { ...llmConfig, provider };
+  }
+
+  // The generator logs its progress for the devtools console, keep it out of the output
+  const originalLog = console.log;
+  console.log = options.debug ? (...args) => console.error('[FLOW_DEBUG]', ...args) : () => {};
+  try {
+    return generateFlowCode(
+      project,
+      actions,
+      options.sampling,
+      llmConfig,
+      options.runDir && path.resolve(options.runDir),
+      options.concurrency || project.concurrency || 1,
+      options.cacheDir && path.resolve(options.cacheDir)
+    );
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+// Function to run the generated code in a child process and report its output, the provider's API key is passed in its environment
+function executeFlow(code, options, provider) {
+  if (!fs.existsSync(path.join(flowDepsDir, 'node_modules'))) {
+    throw new Error('Flow dependencies are missing. Run "npm run prepare-flow-deps" first.');
+  }
+
+  const debugLog = options.debug ? (...args) => console.error(...args) : () => {};
+  const tempDir = path.join(os.tmpdir(), `aitomics-flow-cli-${process.pid}`);
+  const tempNodeModules = prepareFlowWorkspace(flowDepsDir, tempDir, debugLog);
+  const tempFile = path.join(tempDir, `flow-${Date.now()}.js`);
+  fs.writeFileSync(tempFile, wrapFlowCode(code, { tempDir, tempNodeModules }));
+
+  return new Promise((resolve) => {
+    let sawErrors = false;
+    let timedOut = false;
+    let buffer = '';
+
+    const child = spawn(process.execPath, [tempFile], {
+      cwd: tempDir,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: {
+        ...process.env,
+        NODE_PATH: tempNodeModules,
+        ELECTRON_RUN_AS_NODE: '1',
+        ...llmApiKeyEnv(provider)
+      }
+    });
+
+    const handleLine = (line) => {
+      if (!line.trim()) return;
+      const { message } = formatFlowOutputLine(line);
+
+      if (message.startsWith(UI_LOG_PREFIX)) {
+        const json = message.slice(UI_LOG_PREFIX.length);
+        try {
+          const event = JSON.parse(json);
+          if (event.error || event.type === 'error') sawErrors = true;
+        } catch (e) {
+          // Pass malformed events through untouched
+        }
+        process.stdout.write(json + '\n');
+        return;
+      }
+
+      if (message.startsWith('[FLOW_DEBUG]')) {
+        debugLog(message);
+        return;
+      }
+
+      if (message.startsWith('[FLOW_ERROR]')) sawErrors = true;
+      console.error(message);
+    };
+
+    child.stdout.on('data', (data) => {
+      buffer += data.toString();
+      let newlineIndex;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        handleLine(buffer.slice(0, newlineIndex));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    });
+
+    child.stderr.on('data', (data) => {
+      sawErrors = true;
+      console.error(`[FLOW_ERROR] ${data.toString().trim()}`);
+    });
+
+    // Ask the flow to stop the same way the app's stop button does
+    const terminate = () => {
+      if (child.stdin.writable) {
+        child.stdin.write(JSON.stringify({ type: 'terminate' }) + '\n');
+      }
+      setTimeout(() => child.kill('SIGKILL'), 2000).unref();
+    };
+    process.on('SIGINT', terminate);
+
+    const timeoutSeconds = options.timeout !== undefined ? options.timeout : 300;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      console.error(`[FLOW_ERROR] Flow execution timed out after ${timeoutSeconds} seconds`);
+      terminate();
+    }, timeoutSeconds * 1000);
+
+    const finish = (exitCode) => {
+      clearTimeout(timer);
+      process.removeListener('SIGINT', terminate);
+      try {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+      resolve(exitCode);
+    };
+
+    child.on('error', (error) => {
+      console.error(`[FLOW_ERROR] Child process error: ${error.message}`);
+      finish(EXIT_FAILURE);
+    });
+
+    child.on('close', (code, signal) => {
+      if (buffer.trim()) handleLine(buffer);
+      if (code !== 0 || timedOut) {
+        console.error(`[FLOW_ERROR] Flow execution failed with code ${code}${signal ? ` and signal ${signal}` : ''}`);
+        finish(EXIT_FAILURE);
+      } else {
+        finish(sawErrors ? EXIT_FLOW_ERRORS : EXIT_SUCCESS);
+      }
+    });
+  });
+}
+
+async function main() {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (e) {
+    console.error(e.message);
+    console.error(usage);
+    return EXIT_FAILURE;
+  }
+
+  if (options.help) {
+    console.log(usage);
+    return EXIT_SUCCESS;
+  }
+  if (!options.project && !options.file) {
+    console.error(usage);
+    return EXIT_FAILURE;
+  }
+
+  try {
+    const { project, actions, provider } = loadProject(options);
+    console.error(`[FLOW] Running project "${project.name}" (${project.id})`);
+    const code = generateCode(project, actions, options, provider);
+    if (!code) {
+      throw new Error('No flow code was generated for this project');
+    }
+    return await executeFlow(code, options, provider);
+  } catch (e) {
+    console.error(`[FLOW_ERROR] ${e.message}`);
+    return EXIT_FAILURE;
+  }
+}
+
+if (require.main === module) {
+  main().then(code => process.exit(code));
+}
+
+module.exports = { parseArgs, samplingFromOptions, loadProject, generateCode, executeFlow };
@@ -0,0 +1,55 @@
+const { parseArgs, generateCode } = require('./run-flow');
+
+describe('parseArgs', () => {
+  test('reads value flags and converts numbers', () => {
+    const options = parseArgs(['--project', 'Interviews', '--temperature', '0.2', '--concurrency', '4', '--debug']);
+    expect(options).toMatchObject({ project: 'Interviews', temperature: 0.2, concurrency: 4, debug: true });
+    expect(options.sampling).toBeUndefined();
+  });
+
+  test('rejects unknown arguments, missing values and invalid numbers', () => {
+    expect(() => parseArgs(['--verbose'])).toThrow('Unknown argument: --verbose');
+    expect(() => parseArgs(['--project'])).toThrow('Missing value for --project');
+    expect(() => parseArgs(['--timeout', 'soon'])).toThrow('Invalid value for timeout: soon');
+  });
+
+  test('maps --max-items to a sample of the first items', () => {
+    expect(parseArgs(['--max-items', '10']).sampling).toEqual({ mode: 'first', count: 10, seed: 0 });
+  });
+
+  test('builds random and stratified samples', () => {
+    expect(parseArgs(['--sample', 'random', '--sample-size', '25', '--seed', '7']).sampling)
+      .toEqual({ mode: 'random', count: 25, seed: 7 });
+    expect(parseArgs(['--sample', 'stratified', '--sample-size', '30', '--stratify-by', ' meta.group ']).sampling)
+      .toEqual({ mode: 'stratified', count: 30, seed: 0, attribute: 'meta.group' });
+  });
+
+  test('builds range samples from --items', () => {
+    expect(parseArgs(['--items', '1-50, 101-150']).sampling)
+      .toEqual({ mode: 'range', count: 0, seed: 0, ranges: '1-50, 101-150' });
+  });
+
+  test('rejects incomplete sampling options', () => {
+    expect(() => parseArgs(['--sample', 'everything'])).toThrow('Invalid value for --sample');
+    expect(() => parseArgs(['--sample', 'random'])).toThrow('needs --sample-size');
+    expect(() => parseArgs(['--sample', 'stratified', '--sample-size', '5'])).toThrow('needs --stratify-by');
+    expect(() => parseArgs(['--sample', 'range'])).toThrow('Invalid value for --items');
+    expect(() => parseArgs(['--items', '1-5, six'])).toThrow('Invalid value for --items');
+    expect(() => parseArgs(['--seed', '3'])).toThrow('Choose a sampling mode with --sample');
+  });
+});
+
+describe('generateCode', () => {
+  test('refuses flows with manual coding nodes instead of waiting for a coder', () => {
+    const project = {
+      id: 'project',
+      name: 'Project',
+      blocks: [
+        { id: 'import', type: 'import', name: 'Reviews' },
+        { id: 'coder', type: 'transform', name: 'Human codes', actionId: 'built-in-19' }
+      ],
+      edges: [{ id: 'edge', source: 'import', target: 'coder' }]
+    };
+    expect(() => generateCode(project, [], parseArgs([]))).toThrow('manual coding nodes ("Human codes")');
+  });
+});
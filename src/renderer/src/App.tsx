@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
 import Box from '@mui/material/Box';
-import { Project } from './types/Project';
+import { Project, RunRecord, RunSummary } from './types/Project';
 import { ElectronAPI } from './types/electron';
 import ProjectList from './components/ProjectList';
 import BlockEditor from './components/BlockEditor';
@@ -92,6 +92,7 @@ const App: React.FC = () => {
   const [globalActions, setGlobalActions] = useState<Action[]>([]);
   const [isDraggingAction, setIsDraggingAction] = useState(false);
   const [draggedAction, setDraggedAction] = useState<Action | null>(null);
+  const [openedRun, setOpenedRun] = useState<RunRecord | null>(null);
 
   useEffect(() => {
     // Check if we're running in Electron
@@ -178,6 +179,18 @@ const App: React.FC = () => {
     }
   };
 
+  const handleOpenRun = async (run: RunSummary) => {
+    const project = projects.find(p => p.id === run.projectId);
+    if (!project || !window.electron) return;
+    // The history lists summaries, the outputs and logs of the run are read from its directory
+    const record: RunRecord | null = await window.electron.ipcRenderer.invoke('get-run-record', run.id);
+    if (!record) return;
+    setIsActionEditorOpen(false);
+    setSelectedAction(null);
+    setSelectedProject(project);
+    setOpenedRun(record);
+  };
+
   const handleEditAction = async (action: Action) => {
     setSelectedAction(action);
     setIsActionEditorOpen(true);
@@ -324,6 +337,7 @@ const App: React.FC = () => {
                 setIsActionEditorOpen(false);
                 setSelectedAction(null);
                 setSelectedProject(project);
+                setOpenedRun(null);
               }}
               onCreateProject={handleCreateProject}
               onDeleteProject={handleDeleteProject}
@@ -334,6 +348,7 @@ const App: React.FC = () => {
               setGlobalActions={setGlobalActions}
               onActionDragStart={handleActionDragStart}
               onActionDragEnd={handleActionDragEnd}
+              onOpenRun={handleOpenRun}
             />
           </Box>
           <Box sx={{ 
@@ -366,6 +381,8 @@ const App: React.FC = () => {
               globalActions={globalActions}
               isDraggingAction={isDraggingAction}
               draggedAction={draggedAction}
+              openedRun={openedRun}
+              onCloseRun={() => setOpenedRun(null)}
             />
           ) : (
             <Box sx={{ 
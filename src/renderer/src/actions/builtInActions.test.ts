@@ -0,0 +1,123 @@
+import { generateFlowCode } from '../utils/flowCodeGenerator';
+import { Project } from '../types/Project';
+
+// Function to run a built-in transform as the generated flow code runs it, after the generator
+// has stripped its comments and type annotations and joined its lines
+const transform = (actionId: string, config: Record<string, any>) => {
+  const flow: Project = {
+    id: 'project',
+    name: 'Project',
+    description: '',
+    blocks: [{ id: 'node', type: 'transform', name: 'Node', content: '', position: { x: 0, y: 0 }, actionId, config }],
+    edges: [],
+    createdAt: '',
+    updatedAt: '',
+  };
+  const code = generateFlowCode(flow, []);
+  const start = code.indexOf("callers['node'] = ");
+  const callers: Record<string, any> = {};
+  // Callers wrap the function with aitomics' $, which is left out here
+  new Function('$', 'callers', code.slice(start, code.indexOf('\n\n', start)))((fn: any) => fn, callers);
+  return callers.node;
+};
+
+beforeAll(() => {
+  // The generator logs its progress for the devtools console
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Enforce Label Set', () => {
+  const labels = ['POSITIVE', 'NEGATIVE', 'NEUTRAL'];
+  const enforce = (input: any, config: Record<string, any> = {}) => transform('built-in-13', { labels, ...config })(input);
+
+  test('maps answers to the label as it is configured, ignoring case, markdown, quotes and punctuation', () => {
+    expect(enforce('**Positive.**')).toBe('POSITIVE');
+    expect(enforce(' "negative" ')).toBe('NEGATIVE');
+    expect(enforce('“Neutral”!')).toBe('NEUTRAL');
+  });
+
+  test('maps synonyms to their label and rejects synonyms of unknown labels', () => {
+    expect(enforce('Good', { synonyms: { good: 'positive' } })).toBe('POSITIVE');
+    expect(() => enforce('Good', { synonyms: { good: 'great' } }))
+      .toThrow('Synonym "good" maps to "great", which is not an allowed label');
+  });
+
+  test('finds a single label named in the answer unless that is turned off', () => {
+    expect(enforce('The sentiment is positive.')).toBe('POSITIVE');
+    expect(() => enforce('Positive or negative')).toThrow('is not one of the allowed labels: POSITIVE, NEGATIVE, NEUTRAL');
+    expect(() => enforce('The sentiment is positive.', { 'Find Label In Text': false })).toThrow('is not one of the allowed labels');
+  });
+
+  test('keeps every label of a list, a JSON array or separated text once', () => {
+    expect(enforce('["positive", "Negative"]', { 'Multiple Labels': true })).toEqual(['POSITIVE', 'NEGATIVE']);
+    expect(enforce('positive; positive\nneutral,', { 'Multiple Labels': true })).toEqual(['POSITIVE', 'NEUTRAL']);
+    expect(enforce(['negative'], { 'Multiple Labels': true })).toEqual(['NEGATIVE']);
+  });
+
+  test('rejects a list of labels for a single label and a node without labels', () => {
+    expect(() => enforce(['positive', 'negative'])).toThrow('Expected a single label but got a list');
+    expect(() => transform('built-in-13', { labels: [' '] })('positive')).toThrow('No allowed labels are configured');
+  });
+});
+
+describe('Split into Chunks', () => {
+  const split = (input: any, config: Record<string, any>) => transform('built-in-20', config)(input);
+
+  test('chunks estimated tokens and repeats the overlap at the start of the next chunk', () => {
+    // Words of three letters and a space estimate one token each
+    const text = 'one two six ten red tan';
+    expect(split(text, { 'Chunk By': 'Tokens', 'Chunk Size': 2 })).toEqual(['one two', 'six ten', 'red tan']);
+    expect(split(text, { 'Chunk By': 'Tokens', 'Chunk Size': 2, Overlap: 1 }))
+      .toEqual(['one two', 'two six', 'six ten', 'ten red', 'red tan']);
+  });
+
+  test('never splits a sentence or paragraph', () => {
+    expect(split('First one. Second one! Third? Fourth.', { 'Chunk By': 'Sentences', 'Chunk Size': 2 }))
+      .toEqual(['First one. Second one!', 'Third? Fourth.']);
+    expect(split('A\n\nB\n\n\nC', { 'Chunk By': 'Paragraphs', 'Chunk Size': 2 })).toEqual(['A\n\nB', 'C']);
+  });
+
+  test('keeps the lines of a speaker turn together', () => {
+    const transcript = 'Interviewer: Hi\nthere\nRespondent: Hello\nInterviewer: Bye';
+    expect(split(transcript, { 'Chunk By': 'Speaker Turns', 'Chunk Size': 1 }))
+      .toEqual(['Interviewer: Hi\nthere', 'Respondent: Hello', 'Interviewer: Bye']);
+    expect(split('Q. Hi\nA. Hello', { 'Chunk By': 'Speaker Turns', 'Chunk Size': 1, 'Speaker Pattern': '^[QA]\\.' }))
+      .toEqual(['Q. Hi', 'A. Hello']);
+  });
+
+  test('chunks structured items as their JSON', () => {
+    expect(split({ text: 'long' }, { 'Chunk By': 'Tokens', 'Chunk Size': 100 })).toEqual(['{"text":"long"}']);
+  });
+});
+
+describe('Combine Chunks', () => {
+  const combine = (input: any, config: Record<string, any> = {}) => transform('built-in-21', config)(input);
+  const chunks = (...contents: any[]) => contents.map((content, index) => ({ parentId: 0, chunkIndex: index, content }));
+
+  test('joins the text of the chunks or keeps them as a list', () => {
+    expect(combine(chunks('first', { label: 'A' }))).toBe('first\n\n{"label":"A"}');
+    expect(combine(chunks('first', 'second'), { 'Combine By': 'List' })).toEqual(['first', 'second']);
+  });
+
+  test('keeps the label most chunks got, the first one found on a tie', () => {
+    expect(combine(chunks('NEG', 'POS', 'POS'), { 'Combine By': 'Majority Label' })).toBe('POS');
+    expect(combine(chunks('NEG', 'POS'), { 'Combine By': 'Majority Label' })).toBe('NEG');
+    expect(combine(chunks(['NEG', 'POS'], 'POS', ' '), { 'Combine By': 'Majority Label' })).toBe('POS');
+  });
+
+  test('keeps every label any chunk got once', () => {
+    expect(combine(chunks(['NEG', 'POS'], 'POS', 'NEU'), { 'Combine By': 'All Labels' })).toEqual(['NEG', 'POS', 'NEU']);
+  });
+
+  test('rejects what is not the chunks of an item', () => {
+    expect(() => combine({ error: true, errorMessage: 'Request timed out' })).toThrow('Request timed out');
+    expect(() => combine('text')).toThrow('connect this node after a Split into Chunks node');
+    expect(() => combine([])).toThrow('The item has no chunks to combine');
+    expect(() => combine(chunks('', ' '), { 'Combine By': 'All Labels' })).toThrow('None of the chunks has a label');
+  });
+});
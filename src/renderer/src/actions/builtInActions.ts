@@ -166,6 +166,302 @@ export function process(config: Config): any {
     description: 'Parses text into a JSON object.',
     wrapInAitomics: false,
   },
+  {
+    id: 'built-in-13',
+    name: 'Enforce Label Set',
+    type: 'transform',
+    icon: 'RuleIcon',
+    color: '#673ab7',
+    code: `function enforce_label_set(input, config) {
+  const labels = (config.labels || []).map(label => String(label).trim()).filter(Boolean);
+  if (labels.length === 0) {
+    throw new Error('No allowed labels are configured');
+  }
+
+  // Compare without case, markdown, quotes, trailing punctuation or repeated whitespace
+  const normalize = (value) => String(value)
+    .replace(/[*_\`"'“”‘’]/g, '')
+    .replace(/\\s+/g, ' ')
+    .trim()
+    .replace(/[.,;:!?]+$/, '')
+    .toLowerCase();
+
+  // Map every allowed label and synonym to the label as it is configured
+  const canonical = new Map(labels.map(label => [normalize(label), label]));
+  const synonyms = config.synonyms && typeof config.synonyms === 'object' ? config.synonyms : {};
+  for (const [synonym, label] of Object.entries(synonyms)) {
+    const target = canonical.get(normalize(label));
+    if (!target) {
+      throw new Error('Synonym "' + synonym + '" maps to "' + label + '", which is not an allowed label');
+    }
+    canonical.set(normalize(synonym), target);
+  }
+
+  const toLabel = (value) => {
+    const answer = normalize(value);
+    if (canonical.has(answer)) return canonical.get(answer);
+
+    // Accept an answer naming exactly one label, e.g. "The sentiment is positive"
+    if (config.find_label_in_text !== false) {
+      const escape = (text) => text.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&');
+      const found = new Set(Array.from(canonical.entries())
+        .filter(([key]) => new RegExp('(^|[^a-z0-9])' + escape(key) + '([^a-z0-9]|$)').test(answer))
+        .map(([, label]) => label));
+      if (found.size === 1) return Array.from(found)[0];
+    }
+
+    throw new Error('"' + String(value).slice(0, 100) + '" is not one of the allowed labels: ' + labels.join(', '));
+  };
+
+  // Several labels arrive as a list, a JSON array or text separated by commas, semicolons or lines
+  if (config.multiple_labels) {
+    let answers = input;
+    if (typeof input === 'string') {
+      try {
+        answers = JSON.parse(input);
+      } catch (error) {
+        answers = input.split(/[,;\\n]+/);
+      }
+    }
+    if (!Array.isArray(answers)) answers = [answers];
+    return Array.from(new Set(answers.filter(answer => normalize(answer) !== '').map(toLabel)));
+  }
+
+  if (Array.isArray(input)) {
+    throw new Error('Expected a single label but got a list, enable Multiple Labels to keep all of them');
+  }
+  return toLabel(input);
+}`,
+    config: [
+      {
+        type: 'list',
+        label: 'labels',
+        required: true,
+        description: 'The allowed labels (e.g., POSITIVE, NEGATIVE, NEUTRAL). Outputs are returned exactly as written here.',
+        defaultValue: []
+      },
+      {
+        type: 'json',
+        label: 'synonyms',
+        required: false,
+        description: 'Optional map of other answers to an allowed label (e.g., {"good": "POSITIVE", "mixed": "NEUTRAL"})',
+      },
+      {
+        type: 'boolean',
+        label: 'Find Label In Text',
+        required: false,
+        defaultValue: true,
+        description: 'Accept longer answers that name exactly one of the labels or synonyms',
+      },
+      {
+        type: 'boolean',
+        label: 'Multiple Labels',
+        required: false,
+        defaultValue: false,
+        description: 'Keep every label of answers with several codes, the output is then a list of labels',
+      }
+    ],
+    isBuiltIn: true,
+    description: 'Maps the output of a coding prompt onto a fixed set of labels. Case, whitespace, quotes and markdown are ignored and synonyms are mapped to their label. Answers outside the set are reported as errors, so the output can be compared directly with Krippendorff\'s Alpha or Cohen\'s Kappa. With Multiple Labels enabled each item gets a list of labels instead.',
+  },
+  {
+    id: 'built-in-19',
+    name: 'Manual Coding',
+    type: 'transform',
+    icon: 'FindInPageIcon',
+    color: '#673ab7',
+    code: `function manual_coding(input, config, node) {
+  const labels = (config.labels || []).map(label => String(label).trim()).filter(Boolean);
+  if (labels.length === 0) {
+    throw new Error('No labels are configured');
+  }
+
+  // Exported code and the command line runner have no execution window to ask a coder in
+  if (typeof requestManualCode !== 'function') {
+    throw new Error('Manual coding needs a coder in the execution window of the app, run this flow from the app');
+  }
+
+  // The flow waits on this item until the coder picks its label in the execution window
+  const instructions = config.instructions || '';
+  const multiple = config.multiple_labels === true;
+  return requestManualCode({ node, input, labels, instructions, multiple });
+}`,
+    config: [
+      {
+        type: 'list',
+        label: 'labels',
+        required: true,
+        description: 'The labels the coder chooses from (e.g., POSITIVE, NEGATIVE, NEUTRAL). The first nine can be picked with the number keys.',
+        defaultValue: []
+      },
+      {
+        type: 'markdown',
+        label: 'instructions',
+        required: false,
+        description: 'Coding instructions shown to the coder next to every item',
+      },
+      {
+        type: 'boolean',
+        label: 'Multiple Labels',
+        required: false,
+        defaultValue: false,
+        description: 'Let the coder pick several labels for an item, the output is then a list of labels',
+      }
+    ],
+    isBuiltIn: true,
+    description: 'Pauses the flow on every item and asks a human coder to label it in the execution window, using the number keys as shortcuts. The chosen label is the output of the node, so human codes can be compared with those of a model in the same project. Skipped items are reported as errors.',
+  },
+  {
+    id: 'built-in-20',
+    name: 'Split into Chunks',
+    type: 'transform',
+    icon: 'ViewListIcon',
+    color: '#2196f3',
+    code: `function split_into_chunks(input, config) {
+  const text = typeof input === 'string' ? input : JSON.stringify(input);
+  const mode = config.chunk_by || 'Tokens';
+  const size = Number(config.chunk_size) || (mode === 'Tokens' ? 1000 : 5);
+  const overlap = Math.max(0, Number(config.overlap) || 0);
+
+  // Split the text into the units chunks are built from
+  let units;
+  let separator = '';
+  if (mode === 'Sentences') {
+    units = text.match(/[^.!?]+(?:[.!?]+["')\\]]*|$)\\s*/g) || [];
+  } else if (mode === 'Paragraphs') {
+    units = text.split(/\\n\\s*\\n/);
+    separator = '\\n\\n';
+  } else if (mode === 'Speaker Turns') {
+    // A turn starts at a line naming its speaker, e.g. "Interviewer:", and runs until the next one
+    const speaker = new RegExp(config.speaker_pattern || '^\\\\s*[^:\\\\s][^:\\\\n]{0,40}:', 'm');
+    units = [];
+    for (const line of text.split(/\\r?\\n/)) {
+      if (units.length === 0 || speaker.test(line)) units.push(line);
+      else units[units.length - 1] += '\\n' + line;
+    }
+    separator = '\\n';
+  } else {
+    units = text.match(/\\S+\\s*/g) || [];
+  }
+  units = units.filter(unit => unit.trim() !== '');
+
+  // Tokens are estimated at four characters each, the other units count as one
+  const weight = (unit) => mode === 'Tokens' ? unit.length / 4 : 1;
+
+  const chunks = [];
+  let start = 0;
+  while (start < units.length) {
+    let end = start;
+    let total = 0;
+    while (end < units.length && (end === start || total + weight(units[end]) <= size)) {
+      total += weight(units[end]);
+      end++;
+    }
+    chunks.push(units.slice(start, end).join(separator).trim());
+    if (end >= units.length) break;
+
+    // The next chunk repeats the last units of this one, but always moves on by at least one unit
+    let next = end;
+    let repeated = 0;
+    while (next - 1 > start && repeated + weight(units[next - 1]) <= overlap) {
+      next--;
+      repeated += weight(units[next]);
+    }
+    start = next;
+  }
+  return chunks;
+}`,
+    config: [
+      {
+        type: 'select',
+        label: 'Chunk By',
+        required: true,
+        options: ['Tokens', 'Sentences', 'Paragraphs', 'Speaker Turns'],
+        defaultValue: 'Tokens',
+        description: 'The units a chunk is built from, chunks never split a sentence, paragraph or speaker turn',
+      },
+      {
+        type: 'number',
+        label: 'Chunk Size',
+        required: true,
+        defaultValue: 1000,
+        description: 'Tokens, sentences, paragraphs or speaker turns per chunk. Tokens are estimated at four characters each, keep chunks well below the context length of the model',
+      },
+      {
+        type: 'number',
+        label: 'Overlap',
+        required: false,
+        defaultValue: 0,
+        description: 'Tokens, sentences, paragraphs or speaker turns at the end of a chunk that are repeated at the start of the next one',
+      },
+      {
+        type: 'text',
+        label: 'Speaker Pattern',
+        required: false,
+        description: 'Regular expression matching the lines that start a speaker turn, a name followed by a colon (e.g., "Interviewer:") when empty',
+      }
+    ],
+    isBuiltIn: true,
+    description: 'Splits a long text, such as an interview transcript, into chunks by estimated tokens, sentences, paragraphs or speaker turns, optionally overlapping. The transforms after this node run on every chunk separately, and each chunk keeps the index of the item it came from as its parent id. Recombine the chunks with a Combine Chunks node.',
+    chunks: 'split',
+  },
+  {
+    id: 'built-in-21',
+    name: 'Combine Chunks',
+    type: 'transform',
+    icon: 'ViewColumnIcon',
+    color: '#2196f3',
+    code: `function combine_chunks(input, config) {
+  // Keep the message of a chunk that failed before this node
+  if (input && input.error) {
+    throw new Error(input.errorMessage);
+  }
+  if (!Array.isArray(input) || input.some(chunk => !chunk || chunk.parentId === undefined)) {
+    throw new Error('Expected the chunks of an item, connect this node after a Split into Chunks node');
+  }
+  if (input.length === 0) {
+    throw new Error('The item has no chunks to combine');
+  }
+
+  const mode = config.combine_by || 'Join Text';
+  const contents = input.map(chunk => chunk.content);
+  const toText = (content) => typeof content === 'string' ? content : JSON.stringify(content);
+  if (mode === 'List') return contents;
+  if (mode === 'Join Text') return contents.map(toText).join('\\n\\n');
+
+  // A chunk coded with several labels counts for each of them
+  const labels = contents
+    .flatMap(content => Array.isArray(content) ? content : [content])
+    .map(label => toText(label).trim())
+    .filter(Boolean);
+  if (labels.length === 0) {
+    throw new Error('None of the chunks has a label');
+  }
+  if (mode === 'All Labels') return Array.from(new Set(labels));
+
+  // The most frequent label, ties go to the label found first
+  const counts = new Map();
+  labels.forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+  let majority = labels[0];
+  counts.forEach((count, label) => {
+    if (count > counts.get(majority)) majority = label;
+  });
+  return majority;
+}`,
+    config: [
+      {
+        type: 'select',
+        label: 'Combine By',
+        required: true,
+        options: ['Join Text', 'Majority Label', 'All Labels', 'List'],
+        defaultValue: 'Join Text',
+        description: 'Join the chunk outputs as text, keep the label most chunks got, keep every label any chunk got, or keep the outputs as a list in chunk order',
+      }
+    ],
+    isBuiltIn: true,
+    description: 'Recombines the outputs of the chunks of an item after a Split into Chunks node into one output per item, so it can be compared or exported like any other item. Joined text repeats the overlap of overlapping chunks.',
+    chunks: 'combine',
+  },
   {
     id: 'built-in-8',
     name: 'Raw Export',
@@ -213,6 +509,64 @@ export function process(input: any[], config: Config): any {
     description: 'Exports the final result of each transformation as a newline-separated list.',
     wrapInAitomics: false,
   },
+  {
+    id: 'built-in-18',
+    name: 'Export Agreement Report',
+    type: 'output',
+    icon: 'AssessmentIcon',
+    color: '#673ab7',
+    code: `// @ts-nocheck
+export function process(input: any, config: Config, report: any): any {
+  if (!report) {
+    throw new Error('Connect this export to a comparison node to export its agreement report');
+  }
+
+  if (config.format !== 'CSV') {
+    const exported = Object.assign({}, report);
+    exported.result = input;
+    return exported;
+  }
+
+  // One table per part of the report, separated by empty lines
+  const cell = (value) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+  };
+  const row = (values) => values.map(cell).join(',');
+  const result = typeof input === 'object' ? JSON.stringify(input) : input;
+  const tables = [
+    [row(['Result', result]), row(['Percent agreement', report.percentAgreement]), row(['Items', report.items]), row(['Skipped', report.skipped])]
+      .concat(report.interval ? [row(['Confidence', report.interval.confidence]), row(['Lower bound', report.interval.lower]), row(['Upper bound', report.interval.upper]), row(['Resamples', report.interval.resamples]), row(['Seed', report.interval.seed])] : []),
+    // A confusion matrix and per category scores for every pair of raters, the first of the pair in the rows
+    ...report.pairs.flatMap(pair => {
+      const [first, second] = pair.raters.map(index => report.raters[index]);
+      return [
+        [row(['Confusion matrix of ' + first + ' (rows) and ' + second + ' (columns)'].concat(report.categories))]
+          .concat(report.categories.map((category, index) => row([category].concat(pair.confusionMatrix[index])))),
+        [row(['Category of ' + second + ' against ' + first, 'Precision', 'Recall', 'F1', 'Support'])].concat(report.categories.map(category => {
+          const scores = pair.perCategory[category];
+          return row([category, scores.precision, scores.recall, scores.f1, scores.support]);
+        }))
+      ];
+    }),
+    [row(['Disagreeing item'].concat(report.raters))].concat(report.disagreements.map(item => row([item.itemIndex].concat(item.values))))
+  ];
+  return tables.map(table => table.join('\\n')).join('\\n\\n');
+}`,
+    config: [
+      {
+        type: 'select',
+        label: 'format',
+        required: true,
+        options: ['JSON', 'CSV'],
+        defaultValue: 'JSON',
+        description: 'JSON keeps the whole report, CSV writes its tables below each other'
+      }
+    ],
+    isBuiltIn: true,
+    description: 'Exports the agreement report of a comparison node: the result with its confidence interval when the node bootstraps it, percent agreement, the confusion matrix and precision, recall and F1 per category of each pair of inputs, and the items the raters disagree on.',
+    wrapInAitomics: false,
+  },
   {
     id: 'built-in-11',
     name: 'Krippendorff\'s Alpha',
@@ -259,5 +613,257 @@ export function process(list1, list2, config: Config): any {
     description: 'Calculates Cohen\'s Kappa for a specific label, measuring agreement between two raters for binary data (presence/absence of the specified label).',
     isBuiltIn: true,
     wrapInAitomics: false
+  },
+  {
+    id: 'built-in-14',
+    name: "Cohen's Kappa per Label",
+    type: 'comparison',
+    icon: 'CompareIcon',
+    color: '#FF9800',
+    code: `// @ts-nocheck
+export function process(list1, list2, config: Config): any {
+  // Read an output as a set of labels, a single label counts as a set of one
+  const toLabelSet = (output) => {
+    let labels = output;
+    if (typeof output === 'string') {
+      try {
+        labels = JSON.parse(output);
+      } catch (error) {
+        labels = output;
+      }
+    }
+    return new Set((Array.isArray(labels) ? labels : [labels]).map(label => String(label).trim()).filter(Boolean));
+  };
+
+  // Pair the items by position and leave out items that failed for either rater
+  const pairs = [];
+  for (let i = 0; i < Math.min(list1.length, list2.length); i++) {
+    const output1 = list1[i] && list1[i].output;
+    const output2 = list2[i] && list2[i].output;
+    if (output1 === undefined || output2 === undefined || (output1 && output1.error) || (output2 && output2.error)) continue;
+    pairs.push([toLabelSet(output1), toLabelSet(output2)]);
+  }
+  if (pairs.length === 0) {
+    throw new Error('No items were coded by both raters');
+  }
+
+  const configuredLabels = (config.labels || []).map(label => String(label).trim()).filter(Boolean);
+  const foundLabels = Array.from(new Set(pairs.flatMap(([set1, set2]) => [...set1, ...set2]))).sort();
+  const labelNames = configuredLabels.length > 0 ? configuredLabels : foundLabels;
+
+  // Cohen's Kappa of the presence of every label, undefined (null) when both raters never vary
+  const labels = {};
+  for (const label of labelNames) {
+    let agreed = 0;
+    let present1 = 0;
+    let present2 = 0;
+    for (const [set1, set2] of pairs) {
+      if (set1.has(label) === set2.has(label)) agreed++;
+      if (set1.has(label)) present1++;
+      if (set2.has(label)) present2++;
+    }
+    const observed = agreed / pairs.length;
+    const p1 = present1 / pairs.length;
+    const p2 = present2 / pairs.length;
+    const expected = p1 * p2 + (1 - p1) * (1 - p2);
+    labels[label] = expected === 1 ? null : (observed - expected) / (1 - expected);
+  }
+
+  const kappas = Object.values(labels).filter(kappa => kappa !== null);
+  return {
+    mean: kappas.length > 0 ? kappas.reduce((sum, kappa) => sum + kappa, 0) / kappas.length : null,
+    labels
+  };
+}`,
+    config: [
+      {
+        type: 'list',
+        label: 'labels',
+        required: false,
+        description: 'Labels to calculate Cohen\'s Kappa for, every label found in the outputs when empty',
+        defaultValue: []
+      }
+    ],
+    description: 'Calculates Cohen\'s Kappa for the presence of every label in multi-label outputs (lists of codes) of two raters, and the mean over the labels. Single labels are treated as lists of one label.',
+    isBuiltIn: true,
+    wrapInAitomics: false
+  },
+  {
+    id: 'built-in-15',
+    name: "Krippendorff's Alpha (MASI)",
+    type: 'comparison',
+    icon: 'CompareIcon',
+    color: '#673ab7',
+    code: `// @ts-nocheck
+export function process(list1, list2, config: Config): any {
+  // Read an output as a set of labels, a single label counts as a set of one
+  const toLabelSet = (output) => {
+    let labels = output;
+    if (typeof output === 'string') {
+      try {
+        labels = JSON.parse(output);
+      } catch (error) {
+        labels = output;
+      }
+    }
+    return new Set((Array.isArray(labels) ? labels : [labels]).map(label => String(label).trim()).filter(Boolean));
+  };
+
+  // MASI distance: one minus the Jaccard index weighted by how the two sets overlap
+  const masiDistance = (set1, set2) => {
+    if (set1.size === 0 && set2.size === 0) return 0;
+    const intersection = [...set1].filter(label => set2.has(label)).length;
+    const union = set1.size + set2.size - intersection;
+    let monotonicity = 0;
+    if (intersection === set1.size && intersection === set2.size) monotonicity = 1;
+    else if (intersection === set1.size || intersection === set2.size) monotonicity = 2 / 3;
+    else if (intersection > 0) monotonicity = 1 / 3;
+    return 1 - (intersection / union) * monotonicity;
+  };
+
+  // Pair the items by position and leave out items that failed for either rater
+  const units = [];
+  for (let i = 0; i < Math.min(list1.length, list2.length); i++) {
+    const output1 = list1[i] && list1[i].output;
+    const output2 = list2[i] && list2[i].output;
+    if (output1 === undefined || output2 === undefined || (output1 && output1.error) || (output2 && output2.error)) continue;
+    units.push([toLabelSet(output1), toLabelSet(output2)]);
+  }
+  if (units.length === 0) {
+    throw new Error('No items were coded by both raters');
+  }
+
+  // Observed disagreement within the items against the expected disagreement between all values
+  const observed = units.reduce((sum, [set1, set2]) => sum + masiDistance(set1, set2), 0) / units.length;
+  const values = units.flat();
+  let expectedSum = 0;
+  for (let i = 0; i < values.length; i++) {
+    for (let j = 0; j < values.length; j++) {
+      if (i !== j) expectedSum += masiDistance(values[i], values[j]);
+    }
+  }
+  const expected = expectedSum / (values.length * (values.length - 1));
+
+  if (expected === 0) return observed === 0 ? 1 : 0;
+  return 1 - observed / expected;
+}`,
+    config: [],
+    description: 'Calculates Krippendorff\'s Alpha for multi-label outputs (lists of codes) of two raters, using the MASI distance so that partially overlapping code sets count as partial agreement. Single labels are treated as lists of one label.',
+    isBuiltIn: true,
+    wrapInAitomics: false
+  },
+  {
+    id: 'built-in-16',
+    name: "Fleiss' Kappa",
+    type: 'comparison',
+    icon: 'CompareIcon',
+    color: '#FF9800',
+    code: `// @ts-nocheck
+export function process(lists, config: Config): any {
+  // Read an output as a category, failed and empty items count as not coded
+  const toCategory = (response) => {
+    const output = response && response.output;
+    if (output === undefined || output === null || output.error) return undefined;
+    const category = typeof output === 'object' ? JSON.stringify(output) : String(output).trim();
+    return category === '' ? undefined : category;
+  };
+
+  // Fleiss' Kappa needs every rater on every item, keep the items coded by all of them
+  const raters = lists.length;
+  const items = [];
+  for (let i = 0; i < Math.min(...lists.map(list => list.length)); i++) {
+    const categories = lists.map(list => toCategory(list[i]));
+    if (categories.every(category => category !== undefined)) items.push(categories);
+  }
+  if (items.length === 0) {
+    throw new Error('No items were coded by all ' + raters + ' raters');
+  }
+
+  // Share of agreeing rater pairs per item, and how often every category was used overall
+  const totals = new Map();
+  let agreement = 0;
+  for (const categories of items) {
+    const counts = new Map();
+    for (const category of categories) {
+      counts.set(category, (counts.get(category) || 0) + 1);
+      totals.set(category, (totals.get(category) || 0) + 1);
+    }
+    let agreeingPairs = 0;
+    for (const count of counts.values()) agreeingPairs += count * (count - 1);
+    agreement += agreeingPairs / (raters * (raters - 1));
+  }
+
+  const observed = agreement / items.length;
+  let expected = 0;
+  for (const total of totals.values()) expected += Math.pow(total / (items.length * raters), 2);
+
+  if (expected === 1) return observed === 1 ? 1 : 0;
+  return (observed - expected) / (1 - expected);
+}`,
+    config: [],
+    description: 'Calculates Fleiss\' Kappa between any number of raters, connect one input per rater. Only items coded by every rater are used.',
+    isBuiltIn: true,
+    wrapInAitomics: false,
+    multiRater: true
+  },
+  {
+    id: 'built-in-17',
+    name: "Krippendorff's Alpha (N Raters)",
+    type: 'comparison',
+    icon: 'CompareIcon',
+    color: '#673ab7',
+    code: `// @ts-nocheck
+export function process(lists, config: Config): any {
+  // Read an output as a category, failed and empty items count as not coded
+  const toCategory = (response) => {
+    const output = response && response.output;
+    if (output === undefined || output === null || output.error) return undefined;
+    const category = typeof output === 'object' ? JSON.stringify(output) : String(output).trim();
+    return category === '' ? undefined : category;
+  };
+
+  // Coincidences of the categories within every item, items coded by fewer than two raters cannot be paired
+  const coincidences = new Map();
+  let pairable = 0;
+  for (let i = 0; i < Math.max(...lists.map(list => list.length)); i++) {
+    const categories = lists.map(list => toCategory(list[i])).filter(category => category !== undefined);
+    if (categories.length < 2) continue;
+    pairable += categories.length;
+    for (let a = 0; a < categories.length; a++) {
+      for (let b = 0; b < categories.length; b++) {
+        if (a === b) continue;
+        const key = JSON.stringify([categories[a], categories[b]]);
+        coincidences.set(key, (coincidences.get(key) || 0) + 1 / (categories.length - 1));
+      }
+    }
+  }
+  if (pairable === 0) {
+    throw new Error('No items were coded by at least two raters');
+  }
+
+  // Observed disagreement against the disagreement expected from how often every category was used
+  const marginals = new Map();
+  let observed = 0;
+  for (const [key, weight] of coincidences) {
+    const [category1, category2] = JSON.parse(key);
+    marginals.set(category1, (marginals.get(category1) || 0) + weight);
+    if (category1 !== category2) observed += weight;
+  }
+  let expectedPairs = 0;
+  for (const [category1, count1] of marginals) {
+    for (const [category2, count2] of marginals) {
+      if (category1 !== category2) expectedPairs += count1 * count2;
+    }
+  }
+  const expected = expectedPairs / (pairable - 1);
+
+  if (expected === 0) return observed === 0 ? 1 : 0;
+  return 1 - observed / expected;
+}`,
+    config: [],
+    description: 'Calculates Krippendorff\'s Alpha for categorical data between any number of raters, connect one input per rater. Items missing for some raters are still used as long as two raters coded them.',
+    isBuiltIn: true,
+    wrapInAitomics: false,
+    multiRater: true
   }
-]; 
\ No newline at end of file
+];
\ No newline at end of file
@@ -14,8 +14,9 @@ import {
   IconButton,
   Divider,
   Paper,
+  Autocomplete,
 } from '@mui/material';
-import { Action, ActionConfig } from '../types/Project';
+import { Action, ActionConfig, LLMOverrides } from '../types/Project';
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
 import debounce from 'lodash/debounce';
@@ -25,12 +26,33 @@ interface ActionConfigPanelProps {
   action: Action;
   config: Record<string, any>;
   onChange: (config: Record<string, any>) => void;
+  availableModels?: string[];  // Suggested for the model override of LLM actions
 }
 
+// Actions returning a $(...) caller prompt the LLM and get the LLM settings below next to their own configuration
+const usesLLM = (action: Action) => action.wrapInAitomics === false && /\$\(/.test(action.code);
+
+const llmOutputConfig: ActionConfig[] = [
+  {
+    type: 'json',
+    label: 'Output Schema',
+    required: false,
+    description: 'Optional JSON Schema (2019-09 or draft-07) every output must conform to. Outputs that do not conform are requested again with the same prompt, which only helps when the temperature is above 0, and reported as errors when they still do not conform.',
+  },
+  {
+    type: 'boolean',
+    label: 'Constrain Output',
+    required: false,
+    defaultValue: true,
+    description: 'Ask the server for a response following the schema (response_format of OpenAI-compatible servers). Strict mode is requested when the schema is an object and each of its objects sets additionalProperties to false and requires all its properties.',
+  },
+];
+
 const ActionConfigPanel: React.FC<ActionConfigPanelProps> = ({
   action,
   config,
   onChange,
+  availableModels = [],
 }) => {
   // Keep local state for immediate updates
   const [localValues, setLocalValues] = useState<Record<string, any>>(config);
@@ -41,7 +63,7 @@ const ActionConfigPanel: React.FC<ActionConfigPanelProps> = ({
   // Initialize with default values
   useEffect(() => {
     const initialValues = { ...config };
-    action.config.forEach((cfg) => {
+    [...action.config, ...(usesLLM(action) ? llmOutputConfig : [])].forEach((cfg) => {
       if (cfg.defaultValue !== undefined && initialValues[cfg.label] === undefined) {
         initialValues[cfg.label] = cfg.defaultValue;
       }
@@ -113,6 +135,26 @@ const ActionConfigPanel: React.FC<ActionConfigPanelProps> = ({
     </Box>
   ), [handleFinalChange]);
 
+  const isLLMAction = usesLLM(action);
+  const overrides: LLMOverrides = localValues.llmOverrides || {};
+
+  // Function to set or clear (empty value) a single override
+  const updateOverride = useCallback((key: keyof LLMOverrides, value: string, final: boolean) => {
+    const newOverrides: LLMOverrides = { ...(valuesRef.current.llmOverrides || {}) };
+    if (value.trim() === '' || (key !== 'model' && isNaN(Number(value)))) {
+      delete newOverrides[key];
+    } else if (key === 'model') {
+      newOverrides.model = value;
+    } else {
+      newOverrides[key] = Number(value);
+    }
+    if (final) {
+      handleFinalChange('llmOverrides', newOverrides);
+    } else {
+      handleLocalChange('llmOverrides', newOverrides);
+    }
+  }, [handleLocalChange, handleFinalChange]);
+
   const commonTextFieldStyles = {
     '& .MuiOutlinedInput-root': {
       borderRadius: 1,
@@ -490,6 +532,69 @@ const ActionConfigPanel: React.FC<ActionConfigPanelProps> = ({
           </Stack>
         </>
       )}
+      {isLLMAction && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+            LLM Overrides
+          </Typography>
+          <Paper
+            variant="outlined"
+            sx={{
+              p: 1.5,
+              borderRadius: 1,
+              bgcolor: 'background.paper',
+            }}
+          >
+            <Stack spacing={1.5}>
+              <Autocomplete
+                freeSolo
+                options={availableModels}
+                inputValue={overrides.model || ''}
+                onInputChange={(_, value) => updateOverride('model', value, false)}
+                onChange={(_, value) => updateOverride('model', value || '', true)}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    size="small"
+                    placeholder="Model (flow default)"
+                    onBlur={(e) => updateOverride('model', e.target.value, true)}
+                    sx={commonTextFieldStyles}
+                  />
+                )}
+              />
+              <Stack direction="row" spacing={1}>
+                {([
+                  ['temperature', 'Temperature', 0.1],
+                  ['maxTokens', 'Max tokens', 1],
+                  ['seed', 'Seed', 1],
+                ] as [keyof LLMOverrides, string, number][]).map(([key, label, step]) => (
+                  <TextField
+                    key={key}
+                    type="number"
+                    size="small"
+                    placeholder={label}
+                    value={overrides[key] ?? ''}
+                    onChange={(e) => updateOverride(key, e.target.value, false)}
+                    onBlur={(e) => updateOverride(key, e.target.value, true)}
+                    inputProps={{ step }}
+                    sx={{ flex: 1, ...commonTextFieldStyles }}
+                  />
+                ))}
+              </Stack>
+            </Stack>
+          </Paper>
+          <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+            Leave a field empty to use the setting of the flow run.
+          </Typography>
+          <Stack spacing={2} sx={{ mt: 2 }}>
+            {llmOutputConfig.map((cfg) => (
+              <Box key={cfg.label}>
+                {renderConfigField(cfg)}
+              </Box>
+            ))}
+          </Stack>
+        </Box>
+      )}
     </Box>
   );
 };
@@ -160,6 +160,7 @@ const ActionEditor: React.FC<ActionEditorProps> = ({
   const [icon, setIcon] = useState(action?.icon || 'CodeIcon');
   const [color, setColor] = useState(action?.isBuiltIn ? '#666666' : (action?.color || '#10a37f'));
   const [wrapInAitomics, setWrapInAitomics] = useState(action?.wrapInAitomics ?? true);
+  const [multiRater, setMultiRater] = useState(action?.multiRater ?? false);
   const [code, setCode] = useState(action?.code || '');
   const [configs, setConfigs] = useState<ActionConfig[]>(action?.config || []);
   const [description, setDescription] = useState(action?.description || '');
@@ -219,6 +220,7 @@ const ActionEditor: React.FC<ActionEditorProps> = ({
       setConfigs(action.config || []);
       setDescription(action.description || '');
       setWrapInAitomics(action.wrapInAitomics ?? true);
+      setMultiRater(action.multiRater ?? false);
     }
     isInitialLoad.current = true;
   }, [action]);
@@ -231,7 +233,13 @@ const ActionEditor: React.FC<ActionEditorProps> = ({
       return;
     }
 
-    if (type === 'comparison') {
+    if (type === 'comparison' && multiRater) {
+      setCode(`// @ts-nocheck
+export function process(lists, config: Config): any {
+  // This function should compare the lists of all connected raters and return a result
+  return 0;
+}`);
+    } else if (type === 'comparison') {
       setCode(`// @ts-nocheck
 export function process(list1, list2, config: Config): any {
   // This function should compare list1 and list2 and return a result
@@ -263,7 +271,7 @@ export function process(input: any, config: Config): any {
   return input;
 }`);
     }
-  }, [type, wrapInAitomics]);
+  }, [type, wrapInAitomics, multiRater]);
 
   // Generate type definitions based on configs
   const generateTypeDefinitions = () => {
@@ -374,6 +382,7 @@ ${inputProperties}
       description: description,
       isBuiltIn: action.isBuiltIn || false,
       wrapInAitomics: wrapInAitomics,
+      multiRater: type === 'comparison' ? multiRater : undefined,
     };
     
     onSave(updatedAction);
@@ -898,6 +907,23 @@ ${inputProperties}
           </Box>
 
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {type === 'comparison' && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={multiRater}
+                    onChange={(e) => setMultiRater(e.target.checked)}
+                    disabled={action?.isBuiltIn}
+                  />
+                }
+                label="Compare any number of raters"
+                sx={{
+                  '& .MuiFormControlLabel-label': {
+                    color: 'text.secondary',
+                  },
+                }}
+              />
+            )}
             {type !== 'output' && type !== 'comparison' && (
               <FormControlLabel
                 control={
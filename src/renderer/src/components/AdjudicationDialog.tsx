@@ -0,0 +1,363 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Chip,
+  Paper,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+  Collapse,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import { Project, Block, AgreementReport } from '../types/Project';
+import { formatOutput } from '../utils/runDiff';
+
+// Execution window log entries holding the records and outputs of the items
+interface ItemLog {
+  type: string;
+  nodeId?: string;
+  nodeName: string;
+  input?: any;
+  output?: any;
+  itemIndex?: number;
+}
+
+interface AdjudicationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  project: Project;
+  comparison: { nodeId: string; nodeName: string; report: AgreementReport };
+  logs: ItemLog[];
+  onSaved?: (filePath: string, itemCount: number) => void;
+}
+
+interface Rater {
+  name: string;
+  chain: Block[];  // From the import node to the node whose outputs were compared
+}
+
+const cellStyle = {
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+  fontSize: '0.8125rem',
+  color: '#495057',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const,
+};
+
+// Function to find the nodes a compared output went through, from its import node to the given node
+const nodeChain = (project: Project, nodeId: string, visited = new Set<string>()): Block[] | undefined => {
+  if (visited.has(nodeId)) return undefined;
+  visited.add(nodeId);
+  const block = project.blocks.find(b => b.id === nodeId);
+  if (!block) return undefined;
+  if (block.type === 'import') return [block];
+  for (const edge of project.edges.filter(e => e.target === nodeId)) {
+    const chain = nodeChain(project, edge.source, visited);
+    if (chain) return [...chain, block];
+  }
+  return undefined;
+};
+
+// Function to find the log of a node for an item, the latest one when the item ran more than once
+const findItemLog = (logs: ItemLog[], nodeId: string, itemIndex: number) => {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const log = logs[i];
+    if (log.nodeId === nodeId && log.itemIndex === itemIndex && (log.type === 'import' || log.type === 'transform')) {
+      return log;
+    }
+  }
+  return undefined;
+};
+
+// Function to read an output as a label the same way comparison reports do
+const toLabel = (output: any): string | undefined => {
+  if (output === undefined || output === null || output.error) return undefined;
+  if (Array.isArray(output)) return output.map(label => String(label).trim()).sort().join(', ');
+  const label = typeof output === 'object' ? JSON.stringify(output) : String(output).trim();
+  return label === '' ? undefined : label;
+};
+
+const AdjudicationDialog: React.FC<AdjudicationDialogProps> = ({ open, onClose, project, comparison, logs, onSaved }) => {
+  const [decisions, setDecisions] = useState<Record<number, string>>({});
+  const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
+  const [includeAgreed, setIncludeAgreed] = useState(true);
+  const [savedPath, setSavedPath] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Start a new review for every comparison
+  useEffect(() => {
+    setDecisions({});
+    setExpandedItems(new Set());
+    setSavedPath(null);
+    setSaveError(null);
+  }, [comparison.nodeId]);
+
+  // The raters in the order the comparison received them, named after their nodes
+  const raters = useMemo<Rater[]>(() => {
+    const seenNames = new Map<string, number>();
+    return project.edges
+      .filter(edge => edge.target === comparison.nodeId)
+      .map(edge => {
+        const chain = nodeChain(project, edge.source) || [];
+        const baseName = project.blocks.find(b => b.id === edge.source)?.name || edge.source;
+        const count = (seenNames.get(baseName) || 0) + 1;
+        seenNames.set(baseName, count);
+        return { name: count > 1 ? `${baseName} (${count})` : baseName, chain };
+      });
+  }, [project, comparison.nodeId]);
+
+  const importRecord = (itemIndex: number) => {
+    const importNode = raters[0]?.chain[0];
+    return importNode ? findItemLog(logs, importNode.id, itemIndex)?.input : undefined;
+  };
+
+  const disagreements = comparison.report.disagreements;
+
+  // Items every rater gave the same label, adjudicated by their agreement
+  const agreedItems = useMemo(() => {
+    const disagreeing = new Set(disagreements.map(item => item.itemIndex));
+    const importNode = raters[0]?.chain[0];
+    if (!importNode) return [];
+    const itemIndices = Array.from(new Set(logs
+      .filter(log => log.type === 'import' && log.nodeId === importNode.id && log.itemIndex !== undefined)
+      .map(log => log.itemIndex!)))
+      .sort((a, b) => a - b);
+    return itemIndices
+      .filter(itemIndex => !disagreeing.has(itemIndex))
+      .map(itemIndex => ({
+        itemIndex,
+        labels: raters.map(rater => {
+          const lastNode = rater.chain[rater.chain.length - 1];
+          return lastNode ? toLabel(findItemLog(logs, lastNode.id, itemIndex)?.output) : undefined;
+        })
+      }))
+      .filter(item => item.labels[0] !== undefined && item.labels.every(label => label === item.labels[0]))
+      .map(item => ({ itemIndex: item.itemIndex, label: item.labels[0]! }));
+  }, [logs, raters, disagreements]);
+
+  const adjudicatedCount = disagreements.filter(item => (decisions[item.itemIndex] || '').trim() !== '').length;
+
+  const toggleExpanded = (itemIndex: number) => {
+    setExpandedItems(current => {
+      const next = new Set(current);
+      if (next.has(itemIndex)) next.delete(itemIndex);
+      else next.add(itemIndex);
+      return next;
+    });
+  };
+
+  // Function to build a dataset row from the item's original record, an import node can read it again
+  const datasetRow = (itemIndex: number, labels: string[], adjudicatedLabel: string, adjudication: 'adjudicated' | 'agreed') => {
+    const record = importRecord(itemIndex);
+    return {
+      item_index: itemIndex,
+      ...(record && typeof record === 'object' && !Array.isArray(record) ? record : { record }),
+      rater_labels: Object.fromEntries(raters.map((rater, index) => [rater.name, labels[index]])),
+      adjudicated_label: adjudicatedLabel,
+      adjudication,
+    };
+  };
+
+  const handleSave = async () => {
+    const rows = [
+      ...disagreements
+        .filter(item => (decisions[item.itemIndex] || '').trim() !== '')
+        .map(item => datasetRow(item.itemIndex, item.values, decisions[item.itemIndex].trim(), 'adjudicated')),
+      ...(includeAgreed
+        ? agreedItems.map(item => datasetRow(item.itemIndex, raters.map(() => item.label), item.label, 'agreed'))
+        : []),
+    ].sort((a, b) => a.item_index - b.item_index);
+
+    try {
+      const filePath = await window.electron?.ipcRenderer.invoke('save-adjudications', {
+        name: `${project.name}-${comparison.nodeName}-adjudicated`,
+        rows,
+      });
+      if (filePath) {
+        setSavedPath(filePath);
+        setSaveError(null);
+        onSaved?.(filePath, rows.length);
+      }
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const renderItem = (item: { itemIndex: number; values: string[] }) => {
+    const decision = decisions[item.itemIndex] || '';
+    const expanded = expandedItems.has(item.itemIndex);
+    const options = Array.from(new Set(item.values));
+
+    return (
+      <Paper
+        key={item.itemIndex}
+        variant="outlined"
+        sx={{ mb: 1.5, borderRadius: 1, overflow: 'hidden', borderColor: decision.trim() ? '#10a37f80' : undefined }}
+      >
+        <Box sx={{ p: 1.5, bgcolor: '#f8f9fa', display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="subtitle2" sx={{ color: '#333333' }}>Item #{item.itemIndex + 1}</Typography>
+          <Box sx={{ flex: 1 }} />
+          <Button
+            size="small"
+            onClick={() => toggleExpanded(item.itemIndex)}
+            endIcon={expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+            sx={{ textTransform: 'none', color: '#666666' }}
+          >
+            {expanded ? 'Hide transform chain' : 'Show transform chain'}
+          </Button>
+        </Box>
+        <Box sx={{ p: 1.5, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+          <Box>
+            <Typography variant="caption" sx={{ color: '#666666', fontWeight: 600 }}>Original record</Typography>
+            <Box sx={{ ...cellStyle, maxHeight: 160, overflow: 'auto' }}>{formatOutput(importRecord(item.itemIndex))}</Box>
+          </Box>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: `repeat(${Math.max(1, raters.length)}, 1fr)`, gap: 1.5 }}>
+            {raters.map((rater, raterIndex) => (
+              <Box key={rater.name} sx={{ minWidth: 0 }}>
+                <Typography variant="caption" sx={{ color: '#666666', fontWeight: 600 }}>{rater.name}</Typography>
+                <Box sx={{ ...cellStyle, color: '#333333', fontWeight: 600 }}>{item.values[raterIndex] ?? '—'}</Box>
+                <Collapse in={expanded}>
+                  <Box sx={{ mt: 1, pl: 1, borderLeft: '2px solid #e9ecef', display: 'flex', flexDirection: 'column', gap: 1 }}>
+                    {rater.chain.map(node => {
+                      const log = findItemLog(logs, node.id, item.itemIndex);
+                      return (
+                        <Box key={node.id}>
+                          <Typography variant="caption" sx={{ color: '#666666' }}>{node.name}</Typography>
+                          <Box sx={{ ...cellStyle, maxHeight: 120, overflow: 'auto' }}>
+                            {log ? formatOutput(log.output) : 'Not recorded'}
+                          </Box>
+                        </Box>
+                      );
+                    })}
+                  </Box>
+                </Collapse>
+              </Box>
+            ))}
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="body2" sx={{ color: '#666666', mr: 0.5 }}>Adjudicated label:</Typography>
+            {options.map(option => (
+              <Chip
+                key={option}
+                size="small"
+                label={option}
+                variant={decision === option ? 'filled' : 'outlined'}
+                onClick={() => setDecisions(current => ({ ...current, [item.itemIndex]: option }))}
+                sx={{
+                  fontFamily: cellStyle.fontFamily,
+                  ...(decision === option && { bgcolor: 'rgba(16, 163, 127, 0.15)', color: '#10a37f' }),
+                }}
+              />
+            ))}
+            <TextField
+              size="small"
+              placeholder="Other label"
+              value={options.includes(decision) ? '' : decision}
+              onChange={(e) => setDecisions(current => ({ ...current, [item.itemIndex]: e.target.value }))}
+              sx={{ minWidth: 180 }}
+            />
+          </Box>
+        </Box>
+      </Paper>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+      PaperProps={{
+        sx: {
+          minHeight: '60vh',
+          maxHeight: '85vh',
+          bgcolor: '#ffffff',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+        },
+      }}
+    >
+      <DialogTitle sx={{
+        borderBottom: '1px solid #e0e0e0',
+        pb: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Typography variant="h6" sx={{
+          fontFamily: 'monospace',
+          fontSize: '1.1rem',
+          color: '#333333'
+        }}>
+          Review Disagreements: {comparison.nodeName}
+        </Typography>
+        <IconButton
+          onClick={onClose}
+          size="small"
+          sx={{
+            color: '#666666',
+            '&:hover': {
+              color: '#10a37f',
+              bgcolor: 'rgba(16, 163, 127, 0.1)',
+            },
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent sx={{
+        p: 3,
+        '&.MuiDialogContent-root': {
+          pt: 2
+        }
+      }}>
+        {disagreements.length === 0 ? (
+          <Typography variant="body2" sx={{ color: '#666666' }}>
+            The raters agree on every item.
+          </Typography>
+        ) : (
+          disagreements.map(renderItem)
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
+        <Typography variant="body2" sx={{ color: saveError ? '#dc3545' : '#666666', flex: 1 }}>
+          {saveError
+            ? `Failed to save: ${saveError}`
+            : savedPath
+              ? `Saved to ${savedPath}`
+              : `${adjudicatedCount} of ${disagreements.length} disagreements adjudicated`}
+        </Typography>
+        <FormControlLabel
+          control={<Checkbox size="small" checked={includeAgreed} onChange={(e) => setIncludeAgreed(e.target.checked)} />}
+          label={<Typography variant="body2">Include the {agreedItems.length} items the raters agree on</Typography>}
+        />
+        <Button
+          variant="contained"
+          disabled={adjudicatedCount === 0 && !(includeAgreed && agreedItems.length > 0)}
+          onClick={handleSave}
+          sx={{
+            bgcolor: '#673ab7',
+            '&:hover': {
+              bgcolor: '#5e35b1',
+            },
+          }}
+        >
+          Save Dataset
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AdjudicationDialog;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Box, Typography, Chip, Select, MenuItem } from '@mui/material';
+import { AgreementReport, RaterPairAgreement } from '../types/Project';
+
+interface AgreementReportTableProps {
+  report: AgreementReport;
+  lists: string[];  // Names of the compared inputs
+}
+
+const cellStyle = {
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+  fontSize: '0.8125rem',
+  color: '#495057',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap' as const,
+};
+
+const sectionStyle = {
+  bgcolor: '#f8f9fa',
+  p: 1.5,
+  borderRadius: '6px',
+  border: '1px solid #e9ecef',
+  overflowX: 'auto' as const,
+};
+
+const formatScore = (value: number | null) => (value === null ? 'n/a' : value.toFixed(3));
+
+// Function to get the rater pairs of a report. Runs recorded by earlier versions hold the matrix of the first two raters only.
+const raterPairs = (report: AgreementReport): RaterPairAgreement[] => {
+  if (report.pairs) return report.pairs;
+  const { confusionMatrix, perCategory } = report as AgreementReport & Partial<RaterPairAgreement>;
+  return confusionMatrix && perCategory ? [{ raters: [0, 1], confusionMatrix, perCategory }] : [];
+};
+
+const AgreementReportTable: React.FC<AgreementReportTableProps> = ({ report, lists }) => {
+  const [pairIndex, setPairIndex] = useState(0);
+  const matrixColumns = `minmax(120px, 1fr) repeat(${report.categories.length}, minmax(60px, 100px))`;
+  const raters = report.raters || lists;
+  const raterName = (index: number) => raters[index] || `List ${index + 1}`;
+  const pairs = raterPairs(report);
+  const pair = pairs[Math.min(pairIndex, pairs.length - 1)];
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Typography variant="body2" sx={{ color: '#495057' }}>
+        <strong style={{ color: '#666666' }}>Percent agreement:</strong>{' '}
+        {report.percentAgreement === null ? 'n/a' : `${(report.percentAgreement * 100).toFixed(1)}%`} of {report.items} items
+        {report.skipped > 0 && ` (${report.skipped} items left out, not every rater coded them)`}
+      </Typography>
+
+      {pairs.length > 1 && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="body2" sx={{ color: '#666666' }}>Raters:</Typography>
+          <Select size="small" value={pairs.indexOf(pair)} onChange={(e) => setPairIndex(Number(e.target.value))} sx={{ fontSize: '0.8125rem' }}>
+            {pairs.map((option, index) => (
+              <MenuItem key={index} value={index} sx={{ fontSize: '0.8125rem' }}>
+                {raterName(option.raters[0])} and {raterName(option.raters[1])}
+              </MenuItem>
+            ))}
+          </Select>
+        </Box>
+      )}
+
+      {pair && report.categories.length > 0 && (
+        <Box>
+          <Typography variant="subtitle2" sx={{ mb: 1, color: '#666666' }}>
+            Confusion matrix: {raterName(pair.raters[0])} (rows) against {raterName(pair.raters[1])} (columns)
+          </Typography>
+          <Box sx={sectionStyle}>
+            <Box sx={{ display: 'grid', gridTemplateColumns: matrixColumns, gap: 1 }}>
+              <Box />
+              {report.categories.map(category => (
+                <Typography key={category} sx={{ ...cellStyle, fontWeight: 600, textAlign: 'right' }} title={category}>
+                  {category}
+                </Typography>
+              ))}
+              {report.categories.map((rowCategory, row) => (
+                <React.Fragment key={rowCategory}>
+                  <Typography sx={{ ...cellStyle, fontWeight: 600 }} title={rowCategory}>{rowCategory}</Typography>
+                  {pair.confusionMatrix[row].map((count, column) => (
+                    <Typography
+                      key={column}
+                      sx={{
+                        ...cellStyle,
+                        textAlign: 'right',
+                        color: row === column ? '#10a37f' : count > 0 ? '#dc3545' : '#adb5bd',
+                        fontWeight: row === column ? 600 : 400,
+                      }}
+                    >
+                      {count}
+                    </Typography>
+                  ))}
+                </React.Fragment>
+              ))}
+            </Box>
+          </Box>
+        </Box>
+      )}
+
+      {pair && report.categories.length > 0 && (
+        <Box>
+          <Typography variant="subtitle2" sx={{ mb: 1, color: '#666666' }}>
+            Per category of {raterName(pair.raters[1])}, with {raterName(pair.raters[0])} as reference
+          </Typography>
+          <Box sx={sectionStyle}>
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'minmax(120px, 2fr) repeat(4, 1fr)', gap: 1 }}>
+              {['Category', 'Precision', 'Recall', 'F1', 'Support'].map((header, index) => (
+                <Typography key={header} sx={{ ...cellStyle, fontWeight: 600, textAlign: index === 0 ? 'left' : 'right' }}>
+                  {header}
+                </Typography>
+              ))}
+              {report.categories.map(category => {
+                const scores = pair.perCategory[category];
+                return (
+                  <React.Fragment key={category}>
+                    <Typography sx={cellStyle} title={category}>{category}</Typography>
+                    <Typography sx={{ ...cellStyle, textAlign: 'right' }}>{formatScore(scores.precision)}</Typography>
+                    <Typography sx={{ ...cellStyle, textAlign: 'right' }}>{formatScore(scores.recall)}</Typography>
+                    <Typography sx={{ ...cellStyle, textAlign: 'right' }}>{formatScore(scores.f1)}</Typography>
+                    <Typography sx={{ ...cellStyle, textAlign: 'right' }}>{scores.support}</Typography>
+                  </React.Fragment>
+                );
+              })}
+            </Box>
+          </Box>
+        </Box>
+      )}
+
+      <Box>
+        <Typography variant="subtitle2" sx={{ mb: 1, color: '#666666' }}>
+          Disagreeing items ({report.disagreements.length})
+        </Typography>
+        {report.disagreements.length === 0 ? (
+          <Typography variant="body2" sx={{ color: '#666666' }}>
+            The raters agree on every item.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {report.disagreements.map(item => (
+              <Chip
+                key={item.itemIndex}
+                size="small"
+                variant="outlined"
+                label={`#${item.itemIndex + 1}: ${item.values.map(value => value.slice(0, 30)).join(' / ')}`}
+                title={item.values.map((value, index) => `${raterName(index)}: ${value}`).join('\n')}
+                sx={{ fontFamily: cellStyle.fontFamily, fontSize: '0.75rem' }}
+              />
+            ))}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default AgreementReportTable;
@@ -46,10 +46,11 @@ import {
   Divider,
   LinearProgress,
 } from '@mui/material';
-import { Project, Block, BlockType, Action, ActionConfig } from '../types/Project';
+import { Project, Block, BlockType, Action, ActionConfig, RunRecord, LLMProvider, RetryPolicy, BootstrapSettings, SamplingSettings, CsvOptions, ImportPreview } from '../types/Project';
 import { builtInActions } from '../actions/builtInActions';
 import DownloadIcon from '@mui/icons-material/Download';
 import UploadIcon from '@mui/icons-material/Upload';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import TransformIcon from '@mui/icons-material/Transform';
 import CloseIcon from '@mui/icons-material/Close';
 import DeleteIcon from '@mui/icons-material/Delete';
@@ -62,26 +63,38 @@ import OutputIcon from '@mui/icons-material/Output';
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
 import CompareIcon from '@mui/icons-material/Compare';
 import DataObjectIcon from '@mui/icons-material/DataObject';
+import DynamicFeedIcon from '@mui/icons-material/DynamicFeed';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
 import ActionConfigPanel from './ActionConfigPanel';
 import * as Icons from '@mui/icons-material';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import Radio from '@mui/material/Radio';
 import RadioGroup from '@mui/material/RadioGroup';
 import FormControlLabel from '@mui/material/FormControlLabel';
+import Switch from '@mui/material/Switch';
 import FormLabel from '@mui/material/FormLabel';
 import FlowExecutionWindow from './FlowExecutionWindow';
 import CodeIcon from '@mui/icons-material/Code';
-import { generateFlowCode } from '../utils/flowCodeGenerator';
+import { generateFlowCode, importOptions } from '../utils/flowCodeGenerator';
 import debounce from 'lodash/debounce';
 import ActionSelector from './ActionSelector';
 import SmartToyIcon from '@mui/icons-material/SmartToy';
 import CheckIcon from '@mui/icons-material/Check';
 import EditIcon from '@mui/icons-material/Edit';
 import MarkdownEditor from './MarkdownEditor';
+import ProviderSettingsDialog from './ProviderSettingsDialog';
+import RetryPolicyPanel from './RetryPolicyPanel';
+import BootstrapPanel from './BootstrapPanel';
+import CsvOptionsPanel from './CsvOptionsPanel';
+import ImportPreviewPanel from './ImportPreviewPanel';
+import SettingsEthernetIcon from '@mui/icons-material/SettingsEthernet';
 import UndoIcon from '@mui/icons-material/Undo';
 import RedoIcon from '@mui/icons-material/Redo';
 import { Node as ReactFlowNode } from 'reactflow';
 
+// Import action whose attribute path the data preview fills in
+const EXTRACT_JSON_ATTRIBUTE_ID = 'built-in-1';
+
 interface NodeData {
   type: 'import' | 'export' | 'transform' | 'comparison';
   name?: string;
@@ -101,6 +114,8 @@ interface BlockEditorProps {
   globalActions: Action[];
   isDraggingAction?: boolean;
   draggedAction?: Action | null;
+  openedRun?: RunRecord | null;  // Run from the history shown instead of the editor
+  onCloseRun?: () => void;
 }
 
 interface FlowWrapperProps {
@@ -332,17 +347,17 @@ const FlowWrapper: React.FC<FlowWrapperProps> = ({
   );
 };
 
-// Add new interfaces for model selection
+// Add new interfaces for model selection, only LM Studio reports more than the id
 interface Model {
   id: string;
   object: string;
-  type: string;
-  publisher: string;
-  arch: string;
-  compatibility_type: string;
-  quantization: string;
-  state: string;
-  max_context_length: number;
+  type?: string;
+  publisher?: string;
+  arch?: string;
+  compatibility_type?: string;
+  quantization?: string;
+  state?: string;
+  max_context_length?: number;
   loaded_context_length?: number;
 }
 
@@ -440,25 +455,31 @@ const ModelSelectionDialog: React.FC<ModelSelectionDialogProps> = ({
                 }
                 secondary={
                   <Stack direction="row" spacing={2} sx={{ mt: 0.5 }}>
-                    <Chip
-                      size="small"
-                      label={model.type}
-                      sx={{
-                        bgcolor: model.type === 'llm' ? '#10a37f20' : '#673ab720',
-                        color: model.type === 'llm' ? '#10a37f' : '#673ab7',
-                      }}
-                    />
-                    <Chip
-                      size="small"
-                      label={model.state}
-                      sx={{
-                        bgcolor: model.state === 'loaded' ? '#10a37f20' : '#ffc10720',
-                        color: model.state === 'loaded' ? '#10a37f' : '#ffc107',
-                      }}
-                    />
-                    <Typography variant="body2" color="text.secondary">
-                      {model.publisher} • {model.quantization}
-                    </Typography>
+                    {model.type && (
+                      <Chip
+                        size="small"
+                        label={model.type}
+                        sx={{
+                          bgcolor: model.type === 'llm' ? '#10a37f20' : '#673ab720',
+                          color: model.type === 'llm' ? '#10a37f' : '#673ab7',
+                        }}
+                      />
+                    )}
+                    {model.state && (
+                      <Chip
+                        size="small"
+                        label={model.state}
+                        sx={{
+                          bgcolor: model.state === 'loaded' ? '#10a37f20' : '#ffc10720',
+                          color: model.state === 'loaded' ? '#10a37f' : '#ffc107',
+                        }}
+                      />
+                    )}
+                    {(model.publisher || model.quantization) && (
+                      <Typography variant="body2" color="text.secondary">
+                        {[model.publisher, model.quantization].filter(Boolean).join(' • ')}
+                      </Typography>
+                    )}
                   </Stack>
                 }
               />
@@ -928,12 +949,20 @@ const ProjectEditDialog: React.FC<ProjectEditDialogProps> = ({
   );
 };
 
+// Function to check item ranges of a sample, e.g. "1-50, 101-150", the way the generated code parses them
+const isValidItemRanges = (ranges: string) => {
+  const parts = ranges.split(',').map(part => part.trim()).filter(Boolean);
+  return parts.length > 0 && parts.every(part => /^\d+\s*(-\s*\d+)?$/.test(part));
+};
+
 const BlockEditor: React.FC<BlockEditorProps> = ({ 
   project, 
   onUpdateProject, 
   globalActions,
   isDraggingAction: externalIsDraggingAction,
   draggedAction: externalDraggedAction,
+  openedRun,
+  onCloseRun,
 }) => {
   const reactFlowInstance = useRef<ReactFlowInstance | null>(null);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
@@ -946,19 +975,44 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
   const [isDraggingAction, setIsDraggingAction] = useState(false);
   const [draggedAction, setDraggedAction] = useState<Action | null>(null);
   const [isRunDrawerOpen, setIsRunDrawerOpen] = useState(false);
+  const [spreadsheetSheets, setSpreadsheetSheets] = useState<string[]>([]);  // Sheets of the selected import node's spreadsheet
+  const [importPreview, setImportPreview] = useState<ImportPreview | undefined>(undefined);  // What the selected import node reads
+  const [importPreviewLoading, setImportPreviewLoading] = useState(false);
   const [executionMode, setExecutionMode] = useState<'all' | 'custom'>('all');
   const [customCount, setCustomCount] = useState<number>(1);
+  const [samplingMode, setSamplingMode] = useState<SamplingSettings['mode']>('first');
+  const [samplingSeed, setSamplingSeed] = useState(42);
+  const [stratifyAttribute, setStratifyAttribute] = useState('');
+  const [itemRanges, setItemRanges] = useState('');
+  const [useResponseCache, setUseResponseCache] = useState(true);
   const [showExecutionWindow, setShowExecutionWindow] = useState(false);
   const [llmModel, setLlmModel] = useState('llama-3.2-3b-instruct');
   const [llmTemperature, setLlmTemperature] = useState(0.7);
   const [llmMaxTokens, setLlmMaxTokens] = useState(-1);
   const [generatedCode, setGeneratedCode] = useState('');
+  const [flowRun, setFlowRun] = useState<{
+    directory: string;
+    sampling?: SamplingSettings;
+    llmConfig: { model: string; temperature: number; maxTokens: number };
+    provider: LLMProvider;
+    concurrency: number;
+    cacheDirectory?: string;
+  } | null>(null);
+  const [executionAttempt, setExecutionAttempt] = useState(0);
 
   // Add new state variables for model selection
   const [availableModels, setAvailableModels] = useState<Model[]>([]);
   const [isModelDialogOpen, setIsModelDialogOpen] = useState(false);
   const [isLmStudioRunning, setIsLmStudioRunning] = useState(true);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [llmProvider, setLlmProvider] = useState<LLMProvider>({
+    name: 'LM Studio',
+    baseUrl: 'http://127.0.0.1',
+    port: 1234,
+    endpoint: 'v1/chat/completions',
+    modelsEndpoint: 'api/v0/models'
+  });
+  const [isProviderDialogOpen, setIsProviderDialogOpen] = useState(false);
 
   // Use external drag state if provided
   const effectiveIsDraggingAction = externalIsDraggingAction ?? isDraggingAction;
@@ -1043,6 +1097,107 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
     ));
   }, [selectedNode, project, onUpdateProject, setNodes]);
 
+  const handleRetryPolicyChange = useCallback((retryPolicy: RetryPolicy | undefined) => {
+    if (!selectedNode) return;
+
+    const updatedBlocks = project.blocks.map((block) =>
+      block.id === selectedNode.id
+        ? { ...block, retryPolicy }
+        : block
+    );
+
+    onUpdateProject({
+      ...project,
+      blocks: updatedBlocks,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [selectedNode, project, onUpdateProject]);
+
+  // Import nodes read a file or a folder of documents, the sheet of an earlier spreadsheet does not carry over
+  const handleSelectInputPath = useCallback(async (property: 'openFile' | 'openDirectory') => {
+    if (!selectedNode || !window.electron) return;
+
+    const result = await window.electron.ipcRenderer.invoke('show-open-dialog', {
+      properties: [property]
+    });
+    if (result.canceled || result.filePaths.length === 0) return;
+
+    const filePath = result.filePaths[0];
+    const updatedBlocks = project.blocks.map((block) =>
+      block.id === selectedNode.id
+        ? { ...block, file: filePath, sheet: undefined }
+        : block
+    );
+
+    onUpdateProject({
+      ...project,
+      blocks: updatedBlocks,
+      updatedAt: new Date().toISOString(),
+    });
+
+    setNodes(nodes => nodes.map(n =>
+      n.id === selectedNode.id
+        ? { ...n, data: { ...n.data, file: filePath } }
+        : n
+    ));
+
+    setSelectedNode({
+      ...selectedNode,
+      data: {
+        ...selectedNode.data,
+        file: filePath
+      }
+    });
+  }, [selectedNode, project, onUpdateProject, setNodes]);
+
+  const handleSheetChange = useCallback((sheet: string | undefined) => {
+    if (!selectedNode) return;
+
+    const updatedBlocks = project.blocks.map((block) =>
+      block.id === selectedNode.id
+        ? { ...block, sheet }
+        : block
+    );
+
+    onUpdateProject({
+      ...project,
+      blocks: updatedBlocks,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [selectedNode, project, onUpdateProject]);
+
+  const handleCsvOptionsChange = useCallback((csvOptions: CsvOptions | undefined) => {
+    if (!selectedNode) return;
+
+    const updatedBlocks = project.blocks.map((block) =>
+      block.id === selectedNode.id
+        ? { ...block, csvOptions }
+        : block
+    );
+
+    onUpdateProject({
+      ...project,
+      blocks: updatedBlocks,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [selectedNode, project, onUpdateProject]);
+
+  const handleBootstrapChange = useCallback((bootstrap: BootstrapSettings | undefined) => {
+    if (!selectedNode) return;
+
+    const updatedBlocks = project.blocks.map((block) =>
+      block.id === selectedNode.id
+        ? { ...block, bootstrap }
+        : block
+    );
+
+    onUpdateProject({
+      ...project,
+      blocks: updatedBlocks,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [selectedNode, project, onUpdateProject]);
+
   const handleActionSelect = useCallback((action: Action) => {
     if (!selectedNode) return;
 
@@ -2106,6 +2261,13 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
         (sourceNode.type === 'transform' && (targetNode.type === 'transform' || targetNode.type === 'export' || targetNode.type === 'comparison')) ||
         (sourceNode.type === 'comparison' && targetNode.type === 'export');
 
+      // Comparisons pair two inputs, unless their action compares any number of raters
+      if (targetNode.type === 'comparison') {
+        const comparisonAction = [...globalActions, ...builtInActions].find(a => a.id === targetNode.data.actionId);
+        const inputCount = edges.filter(e => e.target === params.target).length;
+        if (comparisonAction && !comparisonAction.multiRater && inputCount >= 2) return;
+      }
+
       if (isValidConnection) {
         const newEdge = {
           id: crypto.randomUUID(),
@@ -2131,7 +2293,7 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
         onUpdateProject(updatedProject);
       }
     },
-    [nodes, setEdges, project, onUpdateProject]
+    [nodes, edges, globalActions, setEdges, project, onUpdateProject]
   );
 
   const onNodeDragStop = useCallback(
@@ -2349,16 +2511,53 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
     setSourceNode(null);
   }, []);
 
+  // Items of every import node the run processes, all of them unless a sample is chosen
+  const sampling = useMemo<SamplingSettings | undefined>(() => {
+    if (executionMode !== 'custom') return undefined;
+    return {
+      mode: samplingMode,
+      count: customCount,
+      seed: samplingSeed,
+      ...(samplingMode === 'stratified' && { attribute: stratifyAttribute.trim() }),
+      ...(samplingMode === 'range' && { ranges: itemRanges.trim() }),
+    };
+  }, [executionMode, samplingMode, customCount, samplingSeed, stratifyAttribute, itemRanges]);
+
+  const samplingError = useMemo(() => {
+    if (sampling?.mode === 'stratified' && !sampling.attribute) {
+      return 'Enter the column or attribute to stratify by';
+    }
+    if (sampling?.mode === 'range' && !isValidItemRanges(sampling.ranges || '')) {
+      return 'Enter item numbers or ranges separated by commas, e.g. 1-50, 101-150';
+    }
+    return undefined;
+  }, [sampling]);
+
+  // Token chunks close to the context length of the selected model leave no room for the prompt and the answer
+  const chunkContextWarning = useMemo(() => {
+    if (selectedAction?.chunks !== 'split') return undefined;
+    const config = selectedNode?.data.config || {};
+    if ((config['Chunk By'] || 'Tokens') !== 'Tokens') return undefined;
+    const model = availableModels.find(m => m.id === llmModel);
+    const contextLength = model?.loaded_context_length || model?.max_context_length;
+    const chunkSize = Number(config['Chunk Size']) || 1000;
+    if (!contextLength || chunkSize <= contextLength * 0.75) return undefined;
+    return `${llmModel} reads up to ${contextLength} tokens at once, keep chunks well below that`;
+  }, [selectedAction, selectedNode, availableModels, llmModel]);
+
   const handlePreviewCode = useCallback(() => {
     const code = generateFlowCode(
       project, 
       globalActions, 
-      executionMode === 'custom' ? customCount : undefined,
+      sampling,
       {
         model: llmModel,
         temperature: llmTemperature,
-        maxTokens: llmMaxTokens
-      }
+        maxTokens: llmMaxTokens,
+        provider: llmProvider
+      },
+      undefined,
+      project.concurrency || 1
     );
     const blob = new Blob([code], { type: 'text/javascript' });
     const url = URL.createObjectURL(blob);
@@ -2369,36 +2568,75 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [project, globalActions, executionMode, customCount, llmModel, llmTemperature, llmMaxTokens]);
+  }, [project, globalActions, sampling, llmModel, llmTemperature, llmMaxTokens, llmProvider]);
 
-  const handleRunFlow = useCallback(() => {
+  const handleRunFlow = useCallback(async () => {
     console.log('[FLOW_DEBUG] Starting flow execution...');
-    console.log('[FLOW_DEBUG] LM Studio status:', { isRunning: isLmStudioRunning });
+    console.log('[FLOW_DEBUG] LLM provider status:', { provider: llmProvider.name, isRunning: isLmStudioRunning });
     
     if (!isLmStudioRunning) {
-      console.error('[FLOW_DEBUG] LM Studio is not running');
-      window.alert('LM Studio is not running. Please start LM Studio and try again.');
+      console.error(`[FLOW_DEBUG] ${llmProvider.name} is not running`);
+      window.alert(`${llmProvider.name} is not running. Please start ${llmProvider.name} and try again.`);
       return;
     }
 
-    console.log('[FLOW_DEBUG] Generating flow code...');
-    const code = generateFlowCode(
-      project, 
-      globalActions, 
-      executionMode === 'custom' ? customCount : undefined,
-      {
-        model: llmModel,
-        temperature: llmTemperature,
-        maxTokens: llmMaxTokens
+    const concurrency = project.concurrency || 1;
+    const llmConfig = {
+      model: llmModel,
+      temperature: llmTemperature,
+      maxTokens: llmMaxTokens
+    };
+
+    // Each run gets its own directory where completed items are checkpointed
+    let runDirectory: string | undefined;
+    try {
+      runDirectory = await window.electron?.ipcRenderer.invoke('create-flow-run', project.id, { sampling, llmConfig, concurrency });
+    } catch (error) {
+      console.error('[FLOW_DEBUG] Failed to create run directory, running without checkpoints:', error);
+    }
+
+    // LLM responses are reused across runs unless the cache is turned off for this run
+    let cacheDirectory: string | undefined;
+    if (useResponseCache) {
+      try {
+        cacheDirectory = await window.electron?.ipcRenderer.invoke('get-response-cache-dir', project.id);
+      } catch (error) {
+        console.error('[FLOW_DEBUG] Failed to get response cache directory, running without cache:', error);
       }
-    );
+    }
+
+    console.log('[FLOW_DEBUG] Generating flow code...');
+    const code = generateFlowCode(project, globalActions, sampling, { ...llmConfig, provider: llmProvider }, runDirectory, concurrency, cacheDirectory);
     console.log('[FLOW_DEBUG] Flow code generated, length:', code.length);
     
     setIsRunDrawerOpen(false);
+    setFlowRun(runDirectory ? { directory: runDirectory, sampling, llmConfig, provider: llmProvider, concurrency, cacheDirectory } : null);
+    setExecutionAttempt(attempt => attempt + 1);
     setShowExecutionWindow(true);
     setGeneratedCode(code);
     console.log('[FLOW_DEBUG] Flow execution window opened');
-  }, [project, globalActions, executionMode, customCount, llmModel, llmTemperature, llmMaxTokens, isLmStudioRunning]);
+  }, [project, globalActions, sampling, llmModel, llmTemperature, llmMaxTokens, llmProvider, isLmStudioRunning, useResponseCache]);
+
+  const handleClearResponseCache = useCallback(async () => {
+    if (!window.confirm('Clear all cached LLM responses of this project? The next run will call the LLM again for every item.')) {
+      return;
+    }
+    try {
+      const clearedCount = await window.electron?.ipcRenderer.invoke('clear-response-cache', project.id);
+      window.alert(`Cleared ${clearedCount || 0} cached responses.`);
+    } catch (error) {
+      console.error('Failed to clear response cache:', error);
+      window.alert('Failed to clear the response cache. Please try again.');
+    }
+  }, [project.id]);
+
+  // Run the flow again in the same run directory, so checkpointed items are skipped
+  const handleResumeRun = useCallback(() => {
+    if (!flowRun) return;
+    const code = generateFlowCode(project, globalActions, flowRun.sampling, { ...flowRun.llmConfig, provider: flowRun.provider }, flowRun.directory, flowRun.concurrency, flowRun.cacheDirectory);
+    setGeneratedCode(code);
+    setExecutionAttempt(attempt => attempt + 1);
+  }, [project, globalActions, flowRun]);
 
   // Add debounced update functions
   const debouncedUpdateNodeName = useCallback(
@@ -2514,21 +2752,104 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
     }
   }, [isRunDrawerOpen, fetchModels]);
 
+  // Fetch models as suggestions for the LLM overrides of a node
+  useEffect(() => {
+    if (isDrawerOpen && availableModels.length === 0) {
+      fetchModels();
+    }
+  }, [isDrawerOpen, availableModels.length, fetchModels]);
+
+  // List the sheets of a spreadsheet picked for the selected import node
+  const selectedFile = selectedNode?.type === 'import' ? selectedNode.data.file : undefined;
+  useEffect(() => {
+    if (!selectedFile || !selectedFile.toLowerCase().endsWith('.xlsx')) {
+      setSpreadsheetSheets([]);
+      return;
+    }
+    window.electron?.ipcRenderer.invoke('get-spreadsheet-sheets', selectedFile).then((sheets: string[]) => {
+      setSpreadsheetSheets(sheets || []);
+    }).catch((error: any) => {
+      console.error('Error listing spreadsheet sheets:', error);
+      setSpreadsheetSheets([]);
+    });
+  }, [selectedFile]);
+
+  // Read the selected import node's file again whenever the sheet or CSV dialect it reads changes
+  const selectedImportBlock = selectedFile ? project.blocks.find(block => block.id === selectedNode?.id) : undefined;
+  const previewOptions = JSON.stringify((selectedImportBlock && importOptions(selectedImportBlock)) || {});
+  useEffect(() => {
+    if (!selectedFile || !window.electron) {
+      setImportPreview(undefined);
+      return;
+    }
+    let cancelled = false;
+    setImportPreviewLoading(true);
+    window.electron.ipcRenderer.invoke('preview-input-file', selectedFile, JSON.parse(previewOptions)).then((preview: ImportPreview) => {
+      if (!cancelled) setImportPreview(preview);
+    }).catch((error: any) => {
+      console.error('Error previewing input file:', error);
+      if (!cancelled) setImportPreview({ rowCount: 0, rows: [], columns: [], error: error.message });
+    }).finally(() => {
+      if (!cancelled) setImportPreviewLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile, previewOptions]);
+
+  const handlePickAttribute = useCallback((path: string) => {
+    handleConfigChange({ ...(selectedNode?.data.config || {}), 'Attribute Path': path });
+  }, [selectedNode, handleConfigChange]);
+
+  // Load the LLM provider profile from the app settings
+  useEffect(() => {
+    window.electron?.ipcRenderer.invoke('get-llm-provider').then((provider: LLMProvider) => {
+      if (provider) {
+        setLlmProvider(provider);
+      }
+    }).catch((error: any) => {
+      console.error('Error loading LLM provider:', error);
+    });
+  }, []);
+
+  const handleSaveProvider = useCallback(async (provider: LLMProvider) => {
+    try {
+      await window.electron?.ipcRenderer.invoke('save-llm-provider', provider);
+      setLlmProvider(provider);
+      setIsProviderDialogOpen(false);
+      fetchModels();
+    } catch (error) {
+      console.error('Error saving LLM provider:', error);
+      window.alert('Failed to save the LLM provider. Please try again.');
+    }
+  }, [fetchModels]);
+
   // Add state for project edit dialog
   const [isProjectEditDialogOpen, setIsProjectEditDialogOpen] = useState(false);
 
   return (
     <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
-      {showExecutionWindow ? (
+      {openedRun ? (
+        <FlowExecutionWindow
+          key={openedRun.id}
+          project={openedRun.project}
+          onClose={() => onCloseRun?.()}
+          llmConfig={openedRun.llmConfig}
+          recordedRun={openedRun}
+        />
+      ) : showExecutionWindow ? (
         <FlowExecutionWindow
+          key={executionAttempt}
           project={project}
           onClose={() => setShowExecutionWindow(false)}
-          llmConfig={{
+          llmConfig={flowRun?.llmConfig || {
             model: llmModel,
             temperature: llmTemperature,
             maxTokens: llmMaxTokens
           }}
           generatedCode={generatedCode}
+          runDirectory={flowRun?.directory}
+          onResumeRun={handleResumeRun}
         />
       ) : (
         <>
@@ -2567,6 +2888,24 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
               >
                 <PlayArrowIcon fontSize="small" />
               </IconButton>
+              <Tooltip title="Clear cached LLM responses">
+                <IconButton
+                  onClick={handleClearResponseCache}
+                  size="small"
+                  sx={{
+                    color: '#666666',
+                    background: 'linear-gradient(145deg, #f5f5f5 0%, #e8e8e8 100%)',
+                    boxShadow: '0 4px 12px rgba(0, 0, 0, 0.05)',
+                    border: '1px solid rgba(0, 0, 0, 0.1)',
+                    '&:hover': {
+                      background: 'linear-gradient(145deg, #e8e8e8 0%, #dcdcdc 100%)',
+                      boxShadow: '0 6px 16px rgba(0, 0, 0, 0.08)',
+                    },
+                  }}
+                >
+                  <DeleteSweepIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
             </Box>
             <Stack direction="row" spacing={1} sx={{ ml: 'auto' }}>
               <Button
@@ -2827,85 +3166,74 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                       bgcolor: 'background.paper',
                     }}
                   >
-                    <Button
-                      variant="outlined"
-                      fullWidth
-                      startIcon={
-                        <Box
-                          sx={{
-                            width: 24,
-                            height: 24,
-                            borderRadius: '50%',
-                            backgroundColor: '#10a37f10',
-                            display: 'flex',
-                            alignItems: 'center',
-                            justifyContent: 'center',
-                            color: '#10a37f',
-                          }}
-                        >
-                          <UploadIcon sx={{ fontSize: '1rem' }} />
-                        </Box>
-                      }
-                      onClick={async () => {
-                        if (selectedNode && window.electron) {
-                          const result = await window.electron.ipcRenderer.invoke('show-open-dialog', {
-                            properties: ['openFile']
-                          });
-                          
-                          if (!result.canceled && result.filePaths.length > 0) {
-                            const filePath = result.filePaths[0];
-                            
-                            // Update project blocks
-                            const updatedBlocks = project.blocks.map((block) =>
-                              block.id === selectedNode.id
-                                ? { ...block, file: filePath }
-                                : block
-                            );
-                            
-                            // Update project state
-                            onUpdateProject({
-                              ...project,
-                              blocks: updatedBlocks,
-                              updatedAt: new Date().toISOString(),
-                            });
-
-                            // Update nodes state
-                            setNodes(nodes => nodes.map(n => 
-                              n.id === selectedNode.id 
-                                ? { 
-                                    ...n, 
-                                    data: { 
-                                      ...n.data, 
-                                      file: filePath 
-                                    } 
-                                  }
-                                : n
-                            ));
-
-                            // Update selected node data
-                            setSelectedNode({
-                              ...selectedNode,
-                              data: {
-                                ...selectedNode.data,
-                                file: filePath
-                              }
-                            });
-                          }
+                    <Stack direction="row" spacing={1}>
+                      <Button
+                        variant="outlined"
+                        fullWidth
+                        startIcon={
+                          <Box
+                            sx={{
+                              width: 24,
+                              height: 24,
+                              borderRadius: '50%',
+                              backgroundColor: '#10a37f10',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              color: '#10a37f',
+                            }}
+                          >
+                            <UploadIcon sx={{ fontSize: '1rem' }} />
+                          </Box>
                         }
-                      }}
-                      sx={{
-                        borderColor: 'rgba(16, 163, 127, 0.2)',
-                        color: '#10a37f',
-                        justifyContent: 'flex-start',
-                        textTransform: 'none',
-                        '&:hover': {
-                          borderColor: '#10a37f',
-                          backgroundColor: 'rgba(16, 163, 127, 0.04)',
-                        },
-                      }}
-                    >
-                      {selectedNode.data.file ? 'Change File' : 'Select File'}
-                    </Button>
+                        onClick={() => handleSelectInputPath('openFile')}
+                        sx={{
+                          borderColor: 'rgba(16, 163, 127, 0.2)',
+                          color: '#10a37f',
+                          justifyContent: 'flex-start',
+                          textTransform: 'none',
+                          '&:hover': {
+                            borderColor: '#10a37f',
+                            backgroundColor: 'rgba(16, 163, 127, 0.04)',
+                          },
+                        }}
+                      >
+                        {selectedNode.data.file ? 'Change File' : 'Select File'}
+                      </Button>
+                      <Button
+                        variant="outlined"
+                        fullWidth
+                        startIcon={
+                          <Box
+                            sx={{
+                              width: 24,
+                              height: 24,
+                              borderRadius: '50%',
+                              backgroundColor: '#10a37f10',
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              color: '#10a37f',
+                            }}
+                          >
+                            <FolderOpenIcon sx={{ fontSize: '1rem' }} />
+                          </Box>
+                        }
+                        onClick={() => handleSelectInputPath('openDirectory')}
+                        sx={{
+                          borderColor: 'rgba(16, 163, 127, 0.2)',
+                          color: '#10a37f',
+                          justifyContent: 'flex-start',
+                          textTransform: 'none',
+                          '&:hover': {
+                            borderColor: '#10a37f',
+                            backgroundColor: 'rgba(16, 163, 127, 0.04)',
+                          },
+                        }}
+                      >
+                        {selectedNode.data.file ? 'Change Folder' : 'Select Folder'}
+                      </Button>
+                    </Stack>
                     {selectedNode.data.file && (
                       <Typography 
                         variant="body2" 
@@ -2920,9 +3248,41 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                         {selectedNode.data.file.split('/').pop() || selectedNode.data.file}
                       </Typography>
                     )}
+                    {spreadsheetSheets.length > 0 && (
+                      <TextField
+                        select
+                        label="Sheet"
+                        value={project.blocks.find(block => block.id === selectedNode.id)?.sheet || spreadsheetSheets[0]}
+                        onChange={(e) => handleSheetChange(e.target.value === spreadsheetSheets[0] ? undefined : e.target.value)}
+                        fullWidth
+                        size="small"
+                        sx={{ mt: 1.5 }}
+                      >
+                        {spreadsheetSheets.map(sheet => (
+                          <MenuItem key={sheet} value={sheet}>{sheet}</MenuItem>
+                        ))}
+                      </TextField>
+                    )}
                   </Paper>
                 </Box>
               )}
+
+              {selectedNode?.type === 'import' && /\.(csv|tsv)$/i.test(selectedNode.data.file || '') && (
+                <CsvOptionsPanel
+                  options={project.blocks.find(block => block.id === selectedNode.id)?.csvOptions}
+                  isTsv={/\.tsv$/i.test(selectedNode.data.file || '')}
+                  onChange={handleCsvOptionsChange}
+                />
+              )}
+
+              {selectedNode?.type === 'import' && selectedNode.data.file && (
+                <ImportPreviewPanel
+                  preview={importPreview}
+                  loading={importPreviewLoading}
+                  attributePath={selectedAction?.id === EXTRACT_JSON_ATTRIBUTE_ID ? selectedNode.data.config?.['Attribute Path'] : undefined}
+                  onPickAttribute={selectedAction?.id === EXTRACT_JSON_ATTRIBUTE_ID ? handlePickAttribute : undefined}
+                />
+              )}
               
               {selectedNode?.type === 'export' && (
                 <Box>
@@ -3124,12 +3484,32 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                         onChange={(config) => {
                           handleConfigChange(config);
                         }}
+                        availableModels={availableModels.map(model => model.id)}
                       />
+                      {chunkContextWarning && (
+                        <Typography variant="caption" color="warning.main" sx={{ mt: 1, display: 'block' }}>
+                          {chunkContextWarning}
+                        </Typography>
+                      )}
                     </>
                   )}
                 </Paper>
               </Box>
 
+              {selectedNode?.type === 'transform' && (
+                <RetryPolicyPanel
+                  policy={project.blocks.find(block => block.id === selectedNode.id)?.retryPolicy}
+                  onChange={handleRetryPolicyChange}
+                />
+              )}
+
+              {selectedNode?.type === 'comparison' && (
+                <BootstrapPanel
+                  settings={project.blocks.find(block => block.id === selectedNode.id)?.bootstrap}
+                  onChange={handleBootstrapChange}
+                />
+              )}
+
               <Box sx={{ 
                 display: 'flex', 
                 gap: 1.5,
@@ -3341,7 +3721,7 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                                 <CodeIcon sx={{ fontSize: '1rem' }} />
                               </Box>
                               <Typography variant="body2" sx={{ fontWeight: executionMode === 'custom' ? 500 : 400 }}>
-                                Process specific number of elements
+                                Process a sample of elements
                               </Typography>
                             </Box>
                           }
@@ -3371,46 +3751,184 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                         }}
                       >
                         <TextField
-                          type="number"
-                          value={customCount}
-                          onChange={(e) => setCustomCount(Math.max(1, parseInt(e.target.value) || 1))}
-                          inputProps={{ min: 1 }}
+                          select
+                          label="Sampling"
+                          value={samplingMode}
+                          onChange={(e) => setSamplingMode(e.target.value as SamplingSettings['mode'])}
                           fullWidth
                           size="small"
-                          placeholder="Enter number of elements"
-                          InputProps={{
-                            startAdornment: (
-                              <Box
-                                sx={{
-                                  width: 24,
-                                  height: 24,
-                                  borderRadius: '50%',
-                                  backgroundColor: '#673ab710',
-                                  display: 'flex',
-                                  alignItems: 'center',
-                                  justifyContent: 'center',
-                                  color: '#673ab7',
-                                  mr: 1,
-                                }}
-                              >
-                                <CodeIcon sx={{ fontSize: '1rem' }} />
-                              </Box>
-                            ),
-                            sx: {
-                              '& .MuiOutlinedInput-notchedOutline': {
-                                borderColor: 'transparent',
-                              },
-                              '&:hover .MuiOutlinedInput-notchedOutline': {
-                                borderColor: 'transparent',
-                              },
-                              '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
-                                borderColor: '#673ab7',
+                          sx={{ mb: 1.5 }}
+                        >
+                          <MenuItem value="first">First items of the file</MenuItem>
+                          <MenuItem value="random">Random sample</MenuItem>
+                          <MenuItem value="stratified">Stratified sample</MenuItem>
+                          <MenuItem value="range">Item ranges</MenuItem>
+                        </TextField>
+                        {samplingMode === 'range' ? (
+                          <TextField
+                            label="Items"
+                            value={itemRanges}
+                            onChange={(e) => setItemRanges(e.target.value)}
+                            fullWidth
+                            size="small"
+                            placeholder="1-50, 101-150"
+                            error={!!samplingError}
+                            helperText={samplingError || 'Item numbers start at 1 and ranges include both ends'}
+                          />
+                        ) : (
+                          <TextField
+                            type="number"
+                            value={customCount}
+                            onChange={(e) => setCustomCount(Math.max(1, parseInt(e.target.value) || 1))}
+                            inputProps={{ min: 1 }}
+                            fullWidth
+                            size="small"
+                            placeholder="Enter number of elements"
+                            InputProps={{
+                              startAdornment: (
+                                <Box
+                                  sx={{
+                                    width: 24,
+                                    height: 24,
+                                    borderRadius: '50%',
+                                    backgroundColor: '#673ab710',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    justifyContent: 'center',
+                                    color: '#673ab7',
+                                    mr: 1,
+                                  }}
+                                >
+                                  <CodeIcon sx={{ fontSize: '1rem' }} />
+                                </Box>
+                              ),
+                              sx: {
+                                '& .MuiOutlinedInput-notchedOutline': {
+                                  borderColor: 'transparent',
+                                },
+                                '&:hover .MuiOutlinedInput-notchedOutline': {
+                                  borderColor: 'transparent',
+                                },
+                                '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                                  borderColor: '#673ab7',
+                                },
                               },
+                            }}
+                          />
+                        )}
+                        {(samplingMode === 'random' || samplingMode === 'stratified') && (
+                          <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+                            {samplingMode === 'stratified' && (
+                              <TextField
+                                label="Stratify by"
+                                value={stratifyAttribute}
+                                onChange={(e) => setStratifyAttribute(e.target.value)}
+                                size="small"
+                                placeholder="e.g. country or respondent.group"
+                                error={!!samplingError}
+                                sx={{ flex: 2 }}
+                              />
+                            )}
+                            <TextField
+                              label="Seed"
+                              type="number"
+                              value={samplingSeed}
+                              onChange={(e) => setSamplingSeed(parseInt(e.target.value) || 0)}
+                              size="small"
+                              sx={{ flex: 1 }}
+                            />
+                          </Stack>
+                        )}
+                        {samplingMode !== 'range' && (
+                          <Typography variant="caption" color={samplingError ? 'error' : 'text.secondary'} sx={{ mt: 1, display: 'block' }}>
+                            {samplingError || (samplingMode === 'first'
+                              ? 'Processes the first items of every import node.'
+                              : samplingMode === 'random'
+                                ? 'Draws the same items for the same seed, so import nodes with as many items stay aligned for comparisons.'
+                                : 'Draws from every value of the column in proportion to how often it occurs, import nodes whose outputs are compared should have the column.')}
+                          </Typography>
+                        )}
+                      </Paper>
+                    )}
+
+                    {/* Number of items processed at the same time, saved with the project */}
+                    <Paper
+                      variant="outlined"
+                      sx={{
+                        p: 1.5,
+                        borderRadius: 1,
+                        bgcolor: 'background.paper',
+                        borderColor: 'divider',
+                      }}
+                    >
+                      <Typography variant="body2" sx={{ mb: 1, color: 'text.secondary' }}>
+                        Items processed in parallel
+                      </Typography>
+                      <TextField
+                        type="number"
+                        value={project.concurrency || 1}
+                        onChange={(e) => onUpdateProject({
+                          ...project,
+                          concurrency: Math.max(1, parseInt(e.target.value) || 1),
+                          updatedAt: new Date().toISOString()
+                        })}
+                        inputProps={{ min: 1 }}
+                        fullWidth
+                        size="small"
+                        InputProps={{
+                          startAdornment: (
+                            <Box
+                              sx={{
+                                width: 24,
+                                height: 24,
+                                borderRadius: '50%',
+                                backgroundColor: '#673ab710',
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                color: '#673ab7',
+                                mr: 1,
+                              }}
+                            >
+                              <DynamicFeedIcon sx={{ fontSize: '1rem' }} />
+                            </Box>
+                          ),
+                          sx: {
+                            '& .MuiOutlinedInput-notchedOutline': {
+                              borderColor: 'transparent',
+                            },
+                            '&:hover .MuiOutlinedInput-notchedOutline': {
+                              borderColor: 'transparent',
+                            },
+                            '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+                              borderColor: '#673ab7',
+                            },
+                          },
+                        }}
+                      />
+                    </Paper>
+
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={useResponseCache}
+                          onChange={(e) => setUseResponseCache(e.target.checked)}
+                          sx={{
+                            '& .MuiSwitch-switchBase.Mui-checked': {
+                              color: '#673ab7',
+                            },
+                            '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                              backgroundColor: '#673ab7',
                             },
                           }}
                         />
-                      </Paper>
-                    )}
+                      }
+                      label={
+                        <Typography variant="body2">
+                          Reuse cached LLM responses
+                        </Typography>
+                      }
+                    />
                   </Stack>
                 </Paper>
               </Box>
@@ -3420,6 +3938,32 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                 <Typography variant="subtitle1" sx={{ mb: 2, color: '#673ab7', fontWeight: 500 }}>
                   LLM Configuration
                 </Typography>
+                <Paper
+                  variant="outlined"
+                  onClick={() => setIsProviderDialogOpen(true)}
+                  sx={{
+                    p: 2,
+                    mb: 2,
+                    borderRadius: 1,
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    bgcolor: 'background.paper',
+                    cursor: 'pointer',
+                    '&:hover': {
+                      bgcolor: 'rgba(0, 0, 0, 0.04)',
+                    },
+                  }}
+                >
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <SettingsEthernetIcon sx={{ color: '#673ab7', fontSize: '1.25rem' }} />
+                    <Typography variant="body2" sx={{ flex: 1 }}>
+                      {llmProvider.name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                      {llmProvider.baseUrl.replace(/^https?:\/\//, '')}:{llmProvider.port}
+                    </Typography>
+                  </Stack>
+                </Paper>
                 <Paper
                   variant="outlined"
                   onClick={() => setIsModelDialogOpen(true)}
@@ -3453,13 +3997,13 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                     </Box>
                     <Typography variant="body2" color={isLmStudioRunning ? 'text.primary' : 'error'} sx={{ flex: 1 }}>
                       {isLoadingModels ? 'Loading models...' : 
-                       !isLmStudioRunning ? 'LM Studio is not running' :
+                       !isLmStudioRunning ? `${llmProvider.name} is not running` :
                        availableModels.find(m => m.id === llmModel)?.id || 'Select a model'}
                     </Typography>
-                    {isLmStudioRunning && (
+                    {isLmStudioRunning && availableModels.find(m => m.id === llmModel)?.state && (
                       <Chip
                         size="small"
-                        label={availableModels.find(m => m.id === llmModel)?.state || 'unknown'}
+                        label={availableModels.find(m => m.id === llmModel)?.state}
                         sx={{
                           bgcolor: availableModels.find(m => m.id === llmModel)?.state === 'loaded' ? '#10a37f20' : '#ffc10720',
                           color: availableModels.find(m => m.id === llmModel)?.state === 'loaded' ? '#10a37f' : '#ffc107',
@@ -3621,6 +4165,13 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                 onSelectModel={setLlmModel}
               />
 
+              <ProviderSettingsDialog
+                open={isProviderDialogOpen}
+                onClose={() => setIsProviderDialogOpen(false)}
+                provider={llmProvider}
+                onSave={handleSaveProvider}
+              />
+
               {/* Preview Code Button */}
               <Button
                 variant="outlined"
@@ -3661,7 +4212,9 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
 
               {/* Run Button */}
               <Tooltip 
-                title={!isLmStudioRunning ? "LM Studio is not running or developer mode is not enabled. Please start LM Studio and enable developer mode (Developer tab > Run) to run the flow." : ""}
+                title={!isLmStudioRunning ? (llmProvider.name === 'LM Studio'
+                  ? "LM Studio is not running or developer mode is not enabled. Please start LM Studio and enable developer mode (Developer tab > Run) to run the flow."
+                  : `${llmProvider.name} is not reachable at ${llmProvider.baseUrl}:${llmProvider.port}. Please start it or check the provider settings to run the flow.`) : ""}
                 placement="top"
               >
                 <span>
@@ -3685,11 +4238,11 @@ const BlockEditor: React.FC<BlockEditorProps> = ({
                       </Box>
                     }
                     onClick={handleRunFlow}
-                    disabled={!isLmStudioRunning}
+                    disabled={!isLmStudioRunning || !!samplingError}
                     sx={{
                       mt: 2,
                       textTransform: 'none',
-                      ...(isLmStudioRunning ? {
+                      ...(isLmStudioRunning && !samplingError ? {
                         background: 'linear-gradient(145deg, #10a37f 0%, #0d8c6d 100%)',
                         boxShadow: '0 4px 12px rgba(16, 163, 127, 0.2)',
                         '&:hover': {
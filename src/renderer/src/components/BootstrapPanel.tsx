@@ -0,0 +1,114 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  Switch,
+  FormControlLabel,
+  Paper,
+} from '@mui/material';
+import { BootstrapSettings } from '../types/Project';
+
+interface BootstrapPanelProps {
+  settings?: BootstrapSettings;
+  onChange: (settings: BootstrapSettings | undefined) => void;
+}
+
+const defaultBootstrapSettings: BootstrapSettings = {
+  resamples: 1000,
+  seed: 42,
+  confidence: 0.95,
+};
+
+const textFieldStyles = {
+  '& .MuiOutlinedInput-root': {
+    borderRadius: 1,
+    '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+      borderColor: '#673ab7',
+    },
+  },
+  '& .MuiInputLabel-root.Mui-focused': {
+    color: '#673ab7',
+  },
+};
+
+const BootstrapPanel: React.FC<BootstrapPanelProps> = ({ settings, onChange }) => {
+  const updateSettings = (changes: Partial<BootstrapSettings>) => {
+    if (settings) {
+      onChange({ ...settings, ...changes });
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+        Confidence Interval
+      </Typography>
+      <Paper
+        variant="outlined"
+        sx={{
+          p: 1.5,
+          borderRadius: 1,
+          bgcolor: 'background.paper',
+        }}
+      >
+        <FormControlLabel
+          control={
+            <Switch
+              checked={!!settings}
+              onChange={(e) => onChange(e.target.checked ? defaultBootstrapSettings : undefined)}
+              size="small"
+              sx={{
+                '& .MuiSwitch-switchBase.Mui-checked': {
+                  color: '#673ab7',
+                },
+                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                  backgroundColor: '#673ab7',
+                },
+              }}
+            />
+          }
+          label={<Typography variant="body2">Bootstrap the result</Typography>}
+        />
+        {settings && (
+          <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+            <TextField
+              label="Resamples"
+              type="number"
+              size="small"
+              value={settings.resamples}
+              onChange={(e) => updateSettings({ resamples: Math.max(1, parseInt(e.target.value) || 1) })}
+              inputProps={{ min: 1, step: 100 }}
+              sx={{ flex: 1, ...textFieldStyles }}
+            />
+            <TextField
+              label="Seed"
+              type="number"
+              size="small"
+              value={settings.seed}
+              onChange={(e) => updateSettings({ seed: parseInt(e.target.value) || 0 })}
+              sx={{ flex: 1, ...textFieldStyles }}
+            />
+            <TextField
+              label="Confidence (%)"
+              type="number"
+              size="small"
+              value={Math.round(settings.confidence * 1000) / 10}
+              onChange={(e) => updateSettings({ confidence: Math.min(99.9, Math.max(50, parseFloat(e.target.value) || 95)) / 100 })}
+              inputProps={{ min: 50, max: 99.9, step: 1 }}
+              sx={{ flex: 1, ...textFieldStyles }}
+            />
+          </Stack>
+        )}
+      </Paper>
+      {settings && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          Calculates the comparison again for {settings.resamples} samples of the items drawn with replacement and reports the {Math.round(settings.confidence * 1000) / 10}% percentile interval. Works for numeric results and the mean of per label results.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default BootstrapPanel;
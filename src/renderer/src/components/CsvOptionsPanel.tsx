@@ -0,0 +1,169 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  Switch,
+  FormControlLabel,
+  MenuItem,
+  Paper,
+} from '@mui/material';
+import { CsvOptions } from '../types/Project';
+
+interface CsvOptionsPanelProps {
+  options?: CsvOptions;
+  isTsv: boolean;  // TSV files are split on tabs unless another delimiter is chosen
+  onChange: (options: CsvOptions | undefined) => void;
+}
+
+const delimiters = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const quotes = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+  { value: '', label: 'None' },
+];
+
+const encodings = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf16le', label: 'UTF-16 LE' },
+  { value: 'latin1', label: 'Latin-1 (ISO-8859-1)' },
+  { value: 'ascii', label: 'ASCII' },
+];
+
+const textFieldStyles = {
+  '& .MuiOutlinedInput-root': {
+    borderRadius: 1,
+    '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+      borderColor: '#673ab7',
+    },
+  },
+  '& .MuiInputLabel-root.Mui-focused': {
+    color: '#673ab7',
+  },
+};
+
+const switchStyles = {
+  '& .MuiSwitch-switchBase.Mui-checked': {
+    color: '#673ab7',
+  },
+  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+    backgroundColor: '#673ab7',
+  },
+};
+
+const CsvOptionsPanel: React.FC<CsvOptionsPanelProps> = ({ options = {}, isTsv, onChange }) => {
+  // Options set back to their default are dropped, so the block only stores what differs
+  const updateOptions = (changes: Partial<CsvOptions>) => {
+    const next: CsvOptions = { ...options, ...changes };
+    const defaults: CsvOptions = { delimiter: isTsv ? '\t' : ',', quote: '"', encoding: 'utf-8', header: true, bom: true, comment: '' };
+    (Object.keys(next) as (keyof CsvOptions)[]).forEach(key => {
+      if (next[key] === undefined || next[key] === defaults[key]) delete next[key];
+    });
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+        {isTsv ? 'TSV' : 'CSV'} Format
+      </Typography>
+      <Paper
+        variant="outlined"
+        sx={{
+          p: 1.5,
+          borderRadius: 1,
+          bgcolor: 'background.paper',
+        }}
+      >
+        <Stack spacing={1.5}>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              select
+              label="Delimiter"
+              size="small"
+              value={options.delimiter ?? (isTsv ? '\t' : ',')}
+              onChange={(e) => updateOptions({ delimiter: e.target.value })}
+              sx={{ flex: 1, ...textFieldStyles }}
+            >
+              {delimiters.map(delimiter => (
+                <MenuItem key={delimiter.label} value={delimiter.value}>{delimiter.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Quote"
+              size="small"
+              value={options.quote ?? '"'}
+              onChange={(e) => updateOptions({ quote: e.target.value })}
+              sx={{ flex: 1, ...textFieldStyles }}
+            >
+              {quotes.map(quote => (
+                <MenuItem key={quote.label} value={quote.value}>{quote.label}</MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <TextField
+              select
+              label="Encoding"
+              size="small"
+              value={options.encoding ?? 'utf-8'}
+              onChange={(e) => updateOptions({ encoding: e.target.value })}
+              sx={{ flex: 1, ...textFieldStyles }}
+            >
+              {encodings.map(encoding => (
+                <MenuItem key={encoding.value} value={encoding.value}>{encoding.label}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Comment prefix"
+              size="small"
+              value={options.comment ?? ''}
+              onChange={(e) => updateOptions({ comment: e.target.value.slice(0, 1) })}
+              placeholder="e.g. #"
+              sx={{ flex: 1, ...textFieldStyles }}
+            />
+          </Stack>
+          <Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={options.header !== false}
+                  onChange={(e) => updateOptions({ header: e.target.checked })}
+                  size="small"
+                  sx={switchStyles}
+                />
+              }
+              label={<Typography variant="body2">First row holds the column names</Typography>}
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={options.bom !== false}
+                  onChange={(e) => updateOptions({ bom: e.target.checked })}
+                  size="small"
+                  sx={switchStyles}
+                />
+              }
+              label={<Typography variant="body2">Drop a byte order mark (BOM)</Typography>}
+            />
+          </Box>
+        </Stack>
+      </Paper>
+      {options.header === false && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          Columns are named column_1, column_2 and so on.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default CsvOptionsPanel;
@@ -6,6 +6,7 @@ import {
   Paper,
   Stack,
   Button,
+  Chip,
   CircularProgress,
   Divider,
   Tooltip,
@@ -23,8 +24,13 @@ import BugReportIcon from '@mui/icons-material/BugReport';
 import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
-import { Project, Block, Edge } from '../types/Project';
+import DifferenceIcon from '@mui/icons-material/Difference';
+import { Project, Block, Edge, RunRecord, AgreementReport, BootstrapInterval, ManualCodingRequest, CsvOptions } from '../types/Project';
 import type { ElectronAPI } from '../types/electron';
+import RunDiffDialog from './RunDiffDialog';
+import AgreementReportTable from './AgreementReportTable';
+import AdjudicationDialog from './AdjudicationDialog';
+import ManualCodingDialog from './ManualCodingDialog';
 
 // Add type for parsed data
 interface ParsedData {
@@ -59,7 +65,9 @@ interface ExecutionState {
     actionName: string;
     list1: string;
     list2: string;
+    lists?: string[];
     result: string;
+    interval?: string;
   };
   flowProgress: FlowProgress[];
   logs: (string | LogData)[];
@@ -68,7 +76,7 @@ interface ExecutionState {
 
 // Update LogData interface
 interface LogData {
-  type: 'transform' | 'input' | 'import' | 'item_update' | 'additional_file' | 'comparison_in_log' | 'export' | 'divider' | 'stop_divider';
+  type: 'transform' | 'input' | 'import' | 'item_update' | 'additional_file' | 'comparison_in_log' | 'export' | 'divider' | 'stop_divider' | 'paused' | 'retry' | 'manual_coding_request';
   nodeId?: string;
   nodeName: string;
   actionName?: string;
@@ -79,14 +87,30 @@ interface LogData {
   filePath?: string;
   list1?: string;
   list2?: string;
-  comparisonResult?: string;
+  comparisonResult?: any;  // A number for most comparisons, per label comparisons return an object
+  comparisonReport?: AgreementReport;
+  comparisonInterval?: BootstrapInterval;
   list1Size?: number;
   list2Size?: number;
+  lists?: string[];  // Every input of a comparison, list1 and list2 hold the first two
+  listSizes?: number[];
   outputPath?: string;
   outputFilename?: string;
   error?: boolean;
   errorMessage?: string;
   itemIndex?: number;
+  sourceIndex?: number;  // Index of the item in its import file, itemIndex is its position among the items the run processes
+  restored?: boolean;  // Output restored from the checkpoint of an earlier attempt of the run
+  position?: string;  // Where a paused flow is waiting
+  attempt?: number;  // Failed attempt of a retried call
+  maxAttempts?: number;
+  retryReason?: string;
+  retryMessage?: string;
+  retryDelayMs?: number;  // Not set when the last attempt failed
+  requestId?: string;  // Manual coding request the coder answers
+  labels?: string[];
+  instructions?: string;
+  multipleLabels?: boolean;
 }
 
 // Update InspectionDialogProps interface
@@ -108,10 +132,60 @@ interface FlowExecutionWindowProps {
     maxTokens: number;
   };
   generatedCode?: string;
+  runDirectory?: string;  // Where completed items are checkpointed
+  onResumeRun?: () => void;
+  recordedRun?: RunRecord;  // Past run to show instead of executing the flow
 }
 
+// Function to show a comparison result on one line, nested results such as per label values are flattened
+const formatComparisonResult = (result: any): string => {
+  if (result === null || result === undefined) return '';
+  if (typeof result !== 'object') return String(result);
+  const entries = (value: Record<string, any>): string[] => Object.entries(value).flatMap(([key, item]) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) return entries(item);
+    if (item === null) return [`${key}: n/a`];
+    return [`${key}: ${typeof item === 'number' ? item.toFixed(3) : JSON.stringify(item)}`];
+  });
+  return Array.isArray(result) ? JSON.stringify(result) : entries(result).join(', ');
+};
+
+// Function to show a bootstrap interval next to the result it belongs to
+const formatInterval = (interval?: BootstrapInterval): string | undefined =>
+  interval && `${Math.round(interval.confidence * 1000) / 10}% CI ${interval.lower.toFixed(3)} to ${interval.upper.toFixed(3)}`;
+
+const inspectionPreStyle: React.CSSProperties = {
+  margin: 0,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all',
+  fontSize: '0.8125rem',
+  lineHeight: 1.5,
+  color: '#495057',
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
+};
+
+// Lists of codes (multi-label outputs) are shown as chips, everything else as JSON
+const InspectionValue = ({ value }: { value: any }) => {
+  const isCodeList = Array.isArray(value) && value.length > 0 &&
+    value.every(item => ['string', 'number', 'boolean'].includes(typeof item));
+  if (!isCodeList) {
+    return <pre style={inspectionPreStyle}>{JSON.stringify(value, null, 2)}</pre>;
+  }
+  return (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+      {value.map((item: string | number | boolean, index: number) => (
+        <Chip
+          key={`${index}-${String(item)}`}
+          label={String(item)}
+          size="small"
+          sx={{ bgcolor: 'rgba(103, 58, 183, 0.08)', color: '#673ab7', fontFamily: inspectionPreStyle.fontFamily }}
+        />
+      ))}
+    </Box>
+  );
+};
+
 // Update TransformInspectionDialog to be more generic
-const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void }) => {
+const InspectionDialog = ({ log, onClose, onReview }: { log: LogData; onClose: () => void; onReview?: () => void }) => {
   const getDialogTitle = () => {
     switch (log.type) {
       case 'import':
@@ -119,7 +193,7 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
       case 'input':
         return `Input Selection: ${log.nodeName}`;
       case 'transform':
-        return `Transform: ${log.nodeName}`;
+        return `Transform: ${log.nodeName}${log.restored ? ' (restored from checkpoint)' : ''}`;
       case 'comparison_in_log':
         return `Comparison: ${log.nodeName} (${log.actionName})`;
       case 'export':
@@ -142,17 +216,7 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
                 borderRadius: '6px',
                 border: '1px solid #e9ecef'
               }}>
-                <pre style={{ 
-                  margin: 0, 
-                  whiteSpace: 'pre-wrap', 
-                  wordBreak: 'break-all',
-                  fontSize: '0.8125rem',
-                  lineHeight: 1.5,
-                  color: '#495057',
-                  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
-                }}>
-                  {JSON.stringify(log.input, null, 2)}
-                </pre>
+                <InspectionValue value={log.input} />
               </Box>
             </Box>
             <Divider orientation="vertical" flexItem />
@@ -164,17 +228,7 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
                 borderRadius: '6px',
                 border: '1px solid #e9ecef'
               }}>
-                <pre style={{ 
-                  margin: 0, 
-                  whiteSpace: 'pre-wrap', 
-                  wordBreak: 'break-all',
-                  fontSize: '0.8125rem',
-                  lineHeight: 1.5,
-                  color: '#495057',
-                  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
-                }}>
-                  {JSON.stringify(log.output, null, 2)}
-                </pre>
+                <InspectionValue value={log.output} />
               </Box>
             </Box>
           </Box>
@@ -216,17 +270,7 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
                 borderRadius: '6px',
                 border: '1px solid #e9ecef'
               }}>
-                <pre style={{ 
-                  margin: 0, 
-                  whiteSpace: 'pre-wrap', 
-                  wordBreak: 'break-all',
-                  fontSize: '0.8125rem',
-                  lineHeight: 1.5,
-                  color: '#495057',
-                  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
-                }}>
-                  {JSON.stringify(log.input, null, 2)}
-                </pre>
+                <InspectionValue value={log.input} />
               </Box>
             </Box>
             <Divider orientation="vertical" flexItem />
@@ -238,17 +282,7 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
                 borderRadius: '6px',
                 border: '1px solid #e9ecef'
               }}>
-                <pre style={{ 
-                  margin: 0, 
-                  whiteSpace: 'pre-wrap', 
-                  wordBreak: 'break-all',
-                  fontSize: '0.8125rem',
-                  lineHeight: 1.5,
-                  color: '#495057',
-                  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
-                }}>
-                  {JSON.stringify(log.output, null, 2)}
-                </pre>
+                <InspectionValue value={log.output} />
               </Box>
             </Box>
           </Box>
@@ -270,12 +304,11 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
               <Typography variant="body2" sx={{ mb: 0.5, color: '#495057' }}>
                 <strong style={{ color: '#666666' }}>Action:</strong> {log.actionName}
               </Typography>
-              <Typography variant="body2" sx={{ mb: 0.5, color: '#495057' }}>
-                <strong style={{ color: '#666666' }}>List 1:</strong> {log.list1} ({log.list1Size} items)
-              </Typography>
-              <Typography variant="body2" sx={{ mb: 0.5, color: '#495057' }}>
-                <strong style={{ color: '#666666' }}>List 2:</strong> {log.list2} ({log.list2Size} items)
-              </Typography>
+              {(log.lists || [log.list1, log.list2]).map((list, index) => (
+                <Typography key={index} variant="body2" sx={{ mb: 0.5, color: '#495057' }}>
+                  <strong style={{ color: '#666666' }}>List {index + 1}:</strong> {list} ({(log.listSizes || [log.list1Size, log.list2Size])[index]} items)
+                </Typography>
+              ))}
             </Box>
             <Typography variant="subtitle2" sx={{ mb: 1, color: '#666666' }}>Result:</Typography>
             <Box sx={{ 
@@ -296,6 +329,40 @@ const InspectionDialog = ({ log, onClose }: { log: LogData; onClose: () => void
                 {JSON.stringify(log.comparisonResult, null, 2)}
               </pre>
             </Box>
+            {log.comparisonInterval && (
+              <Typography variant="body2" sx={{ mt: 1, color: '#495057' }}>
+                <strong style={{ color: '#666666' }}>{formatInterval(log.comparisonInterval)}</strong>
+                {' '}from {log.comparisonInterval.resamples} resamples with seed {log.comparisonInterval.seed}
+                {log.comparisonInterval.failed > 0 && `, ${log.comparisonInterval.failed} resamples could not be compared`}
+              </Typography>
+            )}
+            {log.comparisonReport && (
+              <>
+                <Typography variant="subtitle2" sx={{ mt: 2, mb: 1, color: '#666666' }}>Agreement:</Typography>
+                <AgreementReportTable
+                  report={log.comparisonReport}
+                  lists={log.lists || [log.list1 || 'List 1', log.list2 || 'List 2']}
+                />
+                {onReview && log.comparisonReport.disagreements.length > 0 && (
+                  <Button
+                    variant="outlined"
+                    size="small"
+                    onClick={onReview}
+                    sx={{
+                      mt: 2,
+                      borderColor: '#673ab7',
+                      color: '#673ab7',
+                      '&:hover': {
+                        borderColor: '#5e35b1',
+                        bgcolor: 'rgba(103, 58, 183, 0.04)',
+                      },
+                    }}
+                  >
+                    Review Disagreements
+                  </Button>
+                )}
+              </>
+            )}
           </>
         );
       case 'export':
@@ -677,7 +744,7 @@ interface DividerRef {
   element: HTMLDivElement;
 }
 
-const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onClose, llmConfig, generatedCode }) => {
+const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onClose, llmConfig, generatedCode, runDirectory, onResumeRun, recordedRun }) => {
   const [executionState, setExecutionState] = useState<ExecutionState>({
     status: 'idle',
     currentStep: '',
@@ -689,12 +756,21 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
     logs: [],
   });
   const [showDebugLogs, setShowDebugLogs] = useState(false);  // Changed to false by default
+  const [canResume, setCanResume] = useState(false);  // Set once the run was stopped or failed before completing
+  const [runRecordStatus, setRunRecordStatus] = useState<RunRecord['status'] | null>(null);  // Saved to the run history on change
+  const runIdRef = useRef<string>(crypto.randomUUID());
+  const runStartedAtRef = useRef<string>(new Date().toISOString());
+  const itemCountsRef = useRef<Map<string, { current: number; total: number }>>(new Map());
+  const [isRunDiffOpen, setIsRunDiffOpen] = useState(false);
+  const [manualCodingQueue, setManualCodingQueue] = useState<ManualCodingRequest[]>([]);  // Items manual coding nodes wait on, in the order they were requested
+  const [manualCodedCount, setManualCodedCount] = useState(0);
   const consoleRef = useRef<HTMLDivElement>(null);
   const seenMessagesRef = useRef<Set<string>>(new Set());
   const processedImportsRef = useRef<Set<string>>(new Set());
   const completedImportsRef = useRef<Set<string>>(new Set());
   const [elapsedTime, setElapsedTime] = useState(0);
   const startTimeRef = useRef<number | null>(null);
+  const pausedAtRef = useRef<number | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   const [executionGraph, setExecutionGraph] = useState<{
@@ -950,6 +1026,7 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
             // Handle item_update logs to update flow progress
             if (logData.type === 'item_update') {
               const progress = Math.round((logData.current! / logData.total!) * 100);
+              itemCountsRef.current.set(logData.nodeName, { current: logData.current!, total: logData.total! });
               setExecutionState(prev => {
                 const flowProgress = [...prev.flowProgress];
                 const flowIndex = flowProgress.findIndex(f => f.name === logData.nodeName);
@@ -975,6 +1052,38 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
               return;
             }
 
+            // Handle the flow reaching its pause point
+            if (logData.type === 'paused') {
+              setExecutionState(prev => ({
+                ...prev,
+                currentStep: `Flow execution paused ${logData.position || ''}`.trim()
+              }));
+              return;
+            }
+
+            // Handle failed attempts of calls that are retried
+            if (logData.type === 'retry') {
+              setExecutionState(prev => ({
+                ...prev,
+                logs: [...prev.logs, logData]
+              }));
+              return;
+            }
+
+            // Handle items waiting on the coder of a manual coding node
+            if (logData.type === 'manual_coding_request') {
+              setManualCodingQueue(prev => [...prev, {
+                requestId: logData.requestId!,
+                nodeId: logData.nodeId!,
+                nodeName: logData.nodeName,
+                input: logData.input,
+                labels: logData.labels || [],
+                instructions: logData.instructions,
+                multipleLabels: logData.multipleLabels
+              }]);
+              return;
+            }
+
             // Handle comparison_in_log
             if (logData.type === 'comparison_in_log') {
               setExecutionState(prev => ({
@@ -985,7 +1094,9 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
                   actionName: logData.actionName || '',
                   list1: logData.list1 || '',
                   list2: logData.list2 || '',
-                  result: logData.comparisonResult || ''
+                  lists: logData.lists,
+                  result: formatComparisonResult(logData.comparisonResult),
+                  interval: formatInterval(logData.comparisonInterval)
                 }
               }));
               return;
@@ -1033,7 +1144,7 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
             // Handle other UI logs (transform, input, import)
             if (logData.type === 'transform' || logData.type === 'input' || logData.type === 'import') {
               // Create a unique key for the log data to prevent duplicates
-              const logKey = `${logData.type}:${logData.nodeName}:${JSON.stringify(logData.input)}:${JSON.stringify(logData.output)}`;
+              const logKey = `${logData.type}:${logData.nodeName}:${logData.itemIndex ?? ''}:${JSON.stringify(logData.input)}:${JSON.stringify(logData.output)}`;
               
               if (!seenMessagesRef.current.has(logKey)) {
                 seenMessagesRef.current.add(logKey);
@@ -1287,7 +1398,11 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
       if (!startTimeRef.current) {
         // Start timer only if we don't have a start time
         startTimeRef.current = Date.now();
+      } else if (pausedAtRef.current) {
+        // Leave the time spent paused out of the elapsed time
+        startTimeRef.current += Date.now() - pausedAtRef.current;
       }
+      pausedAtRef.current = null;
       
       // Always update the timer while running
       timerRef.current = setInterval(() => {
@@ -1295,6 +1410,8 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
           setElapsedTime(Date.now() - startTimeRef.current);
         }
       }, 1000);
+    } else if (executionState.status === 'paused') {
+      pausedAtRef.current = Date.now();
     } else if (executionState.status === 'completed' || executionState.status === 'error') {
       // Stop the timer but keep the final time
       if (timerRef.current) {
@@ -1373,42 +1490,112 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
     });
   };
 
-  const parseInputFile = async (filePath: string): Promise<ParsedData[]> => {
+  // Keep refs of what the run record is built from, the record is only saved when the status of the run changes
+  const executionStateRef = useRef(executionState);
+  executionStateRef.current = executionState;
+  const runContextRef = useRef({ project, llmConfig, runDirectory });
+  runContextRef.current = { project, llmConfig, runDirectory };
+
+  // Save the run to the project's run history when it starts and when it ends
+  useEffect(() => {
+    if (!runRecordStatus || recordedRun || !window.electron) return;
+
+    const executionState = executionStateRef.current;
+    const { project, llmConfig, runDirectory } = runContextRef.current;
+    const uiLogs = executionState.logs.filter((log): log is LogData => typeof log !== 'string');
+    const errors = [
+      ...uiLogs
+        .filter(log => log.error || log.errorMessage)
+        .map(log => `${log.nodeName}: ${log.errorMessage || 'Unknown error'}`),
+      ...executionState.logs.filter((log): log is string => typeof log === 'string' && log.includes('[FLOW_ERROR]')),
+      ...(executionState.error ? [executionState.error] : [])
+    ];
+
+    const record: RunRecord = {
+      id: runIdRef.current,
+      projectId: project.id,
+      projectName: project.name,
+      project,
+      llmConfig,
+      runDirectory,
+      status: runRecordStatus,
+      startedAt: runStartedAtRef.current,
+      endedAt: runRecordStatus === 'running' ? undefined : new Date().toISOString(),
+      itemCounts: Array.from(itemCountsRef.current.entries()).map(([nodeName, counts]) => ({ nodeName, ...counts })),
+      errors: Array.from(new Set(errors)),
+      comparisons: uiLogs
+        .filter(log => log.type === 'comparison_in_log')
+        .map(log => ({
+          nodeId: log.nodeId,
+          nodeName: log.nodeName,
+          actionName: log.actionName || '',
+          list1: log.list1 || '',
+          list2: log.list2 || '',
+          lists: log.lists,
+          result: formatComparisonResult(log.comparisonResult),
+          interval: formatInterval(log.comparisonInterval)
+        })),
+      exports: uiLogs
+        .filter(log => log.type === 'export')
+        .map(log => ({
+          nodeName: log.nodeName,
+          path: [log.outputPath, log.outputFilename].filter(Boolean).join('/')
+        })),
+      outputs: uiLogs
+        .filter(log => log.type === 'transform' && log.nodeId && log.itemIndex !== undefined)
+        .map(log => ({
+          nodeId: log.nodeId!,
+          nodeName: log.nodeName,
+          itemIndex: log.itemIndex!,
+          sourceIndex: log.sourceIndex,
+          input: log.input,
+          output: log.output,
+          error: log.error || undefined
+        })),
+      logs: executionState.logs
+    };
+
+    window.electron.ipcRenderer.invoke('save-run-record', record).catch(error => {
+      console.error('Failed to save run to history:', error);
+    });
+  }, [runRecordStatus, recordedRun]);
+
+  // Show a run from the history as it was when it ended
+  useEffect(() => {
+    if (!recordedRun) return;
+
+    const latestComparison = recordedRun.comparisons[recordedRun.comparisons.length - 1];
+    setExecutionState(prev => ({
+      ...prev,
+      status: recordedRun.status === 'completed' ? 'completed' : recordedRun.status === 'terminated' ? 'idle' : 'error',
+      currentStep: `Run from ${new Date(recordedRun.startedAt).toLocaleString()} (${recordedRun.status})`,
+      progress: recordedRun.status === 'completed' ? 100 : 0,
+      processedFlows: recordedRun.itemCounts.length,
+      totalFlows: recordedRun.itemCounts.length,
+      flowProgress: recordedRun.itemCounts.map(counts => ({
+        name: counts.nodeName,
+        progress: counts.total > 0 ? Math.round((counts.current / counts.total) * 100) : 0,
+        completed: counts.current === counts.total
+      })),
+      logs: recordedRun.logs,
+      latestComparison,
+      error: recordedRun.errors[0]
+    }));
+
+    if (recordedRun.endedAt) {
+      setElapsedTime(new Date(recordedRun.endedAt).getTime() - new Date(recordedRun.startedAt).getTime());
+    }
+  }, [recordedRun]);
+
+  // Parse an input file in the main process, which reads JSON, JSON Lines, CSV, TSV and spreadsheets like the flow does
+  const parseInputFile = async (filePath: string, options: { sheet?: string; csv?: CsvOptions } = {}): Promise<ParsedData[]> => {
     try {
       const electron = (window as any).electron as ElectronAPI | undefined;
       if (!electron) {
         throw new Error('Electron API not available');
       }
 
-      // Use window.electron.ipcRenderer to communicate with main process
-      const content = await electron.ipcRenderer.invoke('read-file', filePath);
-      const fileType = filePath.split('.').pop()?.toLowerCase();
-
-      if (fileType === 'json') {
-        const data = JSON.parse(content);
-        return Array.isArray(data) ? data : [data];
-      } else if (fileType === 'csv') {
-        // Parse CSV content manually since we can't use csv-parse in renderer
-        const lines = content.split('\n');
-        const headers = lines[0].split(',').map((h: string) => h.trim());
-        return lines.slice(1)
-          .filter((line: string) => line.trim())
-          .map((line: string) => {
-            const values = line.split(',').map((v: string) => v.trim());
-            const row: ParsedData = {};
-            headers.forEach((header: string, index: number) => {
-              const value = values[index];
-              // Try to parse numbers and booleans
-              if (value === 'true') row[header] = true;
-              else if (value === 'false') row[header] = false;
-              else if (!isNaN(Number(value))) row[header] = Number(value);
-              else row[header] = value;
-            });
-            return row;
-          });
-      } else {
-        throw new Error(`Unsupported file type: ${fileType}`);
-      }
+      return await electron.ipcRenderer.invoke('parse-input-file', filePath, options);
     } catch (error) {
       throw new Error(`Failed to parse input file: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -1425,6 +1612,8 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
     }
 
     console.log('[FLOW_DEBUG] Setting execution state to running');
+    runStartedAtRef.current = new Date().toISOString();
+    setRunRecordStatus('running');
     setExecutionState(prev => ({ 
       ...prev, 
       status: 'running',
@@ -1433,8 +1622,9 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
 
     try {
       console.log('[FLOW_DEBUG] Invoking execute-flow IPC handler');
-      await window.electron.ipcRenderer.invoke('execute-flow', generatedCode);
+      await window.electron.ipcRenderer.invoke('execute-flow', generatedCode, runDirectory, runIdRef.current);
       console.log('[FLOW_DEBUG] Flow execution completed successfully');
+      setRunRecordStatus('completed');
       setExecutionState(prev => ({ 
         ...prev, 
         status: 'completed', 
@@ -1443,6 +1633,9 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
       }));
     } catch (error) {
       console.error('[FLOW_DEBUG] Flow execution failed:', error);
+      setCanResume(true);
+      // A stopped flow also fails, keep it recorded as terminated
+      setRunRecordStatus(prev => prev === 'terminated' ? prev : 'failed');
       setExecutionState(prev => ({
         ...prev,
         status: 'error',
@@ -1450,16 +1643,29 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
         currentStep: 'Flow execution failed'
       }));
     }
-  }, [generatedCode]);
+    // Requests of a flow that ended can no longer be answered
+    setManualCodingQueue([]);
+  }, [generatedCode, runDirectory]);
 
-  const handlePause = useCallback(() => {
-    setExecutionState(prev => ({
-      ...prev,
-      status: prev.status === 'running' ? 'paused' : 'running',
-      currentStep: prev.status === 'running' ? 'Flow execution paused' : 'Resuming flow execution',
-      logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Execution ${prev.status === 'running' ? 'paused' : 'resumed'}`]
-    }));
-  }, []);
+  const handlePause = useCallback(async () => {
+    const isPausing = executionState.status === 'running';
+    try {
+      // The flow stops before its next item or transformation, the current step is allowed to finish
+      await window.electron?.ipcRenderer.invoke(isPausing ? 'pause-flow' : 'resume-flow');
+      setExecutionState(prev => ({
+        ...prev,
+        status: isPausing ? 'paused' : 'running',
+        currentStep: isPausing ? 'Pausing after the current step...' : 'Resuming flow execution',
+        logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Execution ${isPausing ? 'paused' : 'resumed'}`]
+      }));
+    } catch (error) {
+      console.error('Failed to pause or resume flow:', error);
+      setExecutionState(prev => ({
+        ...prev,
+        logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Failed to ${isPausing ? 'pause' : 'resume'} flow: ${error instanceof Error ? error.message : String(error)}`]
+      }));
+    }
+  }, [executionState.status]);
 
   const handleStop = useCallback(async () => {
     try {
@@ -1484,6 +1690,8 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
 
       // Reset execution state
       hasExecuted.current = false;
+      setCanResume(true);
+      setRunRecordStatus('terminated');
     } catch (error) {
       console.error('Failed to terminate flow:', error);
       setExecutionState(prev => ({
@@ -1496,15 +1704,64 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
     }
   }, []);
 
-  const handleSave = useCallback(() => {
-    setExecutionState(prev => ({
-      ...prev,
-      logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Saving intermediate results...`]
-    }));
-    // TODO: Implement saving intermediate results
+  const answerManualCoding = useCallback(async (request: ManualCodingRequest, answer: { label?: string | string[]; skipped?: boolean }) => {
+    setManualCodingQueue(prev => prev.filter(r => r.requestId !== request.requestId));
+    try {
+      await window.electron?.ipcRenderer.invoke('submit-manual-code', { requestId: request.requestId, ...answer });
+      if (!answer.skipped) setManualCodedCount(count => count + 1);
+    } catch (error) {
+      console.error('Failed to submit manual code:', error);
+      setExecutionState(prev => ({
+        ...prev,
+        logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Failed to submit the code of an item from ${request.nodeName}: ${error instanceof Error ? error.message : String(error)}`]
+      }));
+    }
   }, []);
 
+  const handleSave = useCallback(async () => {
+    // Collect the per-node results reported so far, the flow may still be running
+    const results = executionState.logs
+      .filter((log): log is LogData => typeof log !== 'string' && (log.type === 'transform' || log.type === 'import'))
+      .map(log => ({
+        nodeId: log.nodeId,
+        nodeName: log.nodeName,
+        type: log.type,
+        input: log.input,
+        output: log.output,
+        error: log.error || false,
+        errorMessage: log.errorMessage || ''
+      }));
+
+    if (results.length === 0) {
+      setExecutionState(prev => ({
+        ...prev,
+        logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] No results to save yet`]
+      }));
+      return;
+    }
+
+    try {
+      const filePath = await window.electron?.ipcRenderer.invoke('save-intermediate-results', {
+        projectName: project.name,
+        results
+      });
+      if (filePath) {
+        setExecutionState(prev => ({
+          ...prev,
+          logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Saved ${results.length} intermediate results to ${filePath}`]
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to save intermediate results:', error);
+      setExecutionState(prev => ({
+        ...prev,
+        logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Failed to save intermediate results: ${error instanceof Error ? error.message : String(error)}`]
+      }));
+    }
+  }, [executionState.logs, project.name]);
+
   const [inspectionDialog, setInspectionDialog] = useState<LogData | null>(null);
+  const [adjudicationLog, setAdjudicationLog] = useState<LogData | null>(null);
   const [errorDialog, setErrorDialog] = useState<{ description: string; details: any } | null>(null);
 
   // Add back the helper functions
@@ -1695,13 +1952,14 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
                     ` (${executionState.latestComparison.actionName})`}:
                 </Typography>
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                  <Typography variant="body2" sx={{ color: '#333333', fontWeight: 500 }}>
-                    {executionState.latestComparison.list1}
-                  </Typography>
-                  <Typography variant="body2" sx={{ color: '#666666' }}>/</Typography>
-                  <Typography variant="body2" sx={{ color: '#333333', fontWeight: 500 }}>
-                    {executionState.latestComparison.list2}
-                  </Typography>
+                  {(executionState.latestComparison.lists || [executionState.latestComparison.list1, executionState.latestComparison.list2]).map((list, index) => (
+                    <React.Fragment key={index}>
+                      {index > 0 && <Typography variant="body2" sx={{ color: '#666666' }}>/</Typography>}
+                      <Typography variant="body2" sx={{ color: '#333333', fontWeight: 500 }}>
+                        {list}
+                      </Typography>
+                    </React.Fragment>
+                  ))}
                 </Box>
                 <Typography variant="body2" sx={{ 
                   color: executionState.latestComparison.result === 'match' ? '#10a37f' : '#673ab7',
@@ -1710,6 +1968,11 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
                 }}>
                   ({executionState.latestComparison.result})
                 </Typography>
+                {executionState.latestComparison.interval && (
+                  <Typography variant="body2" sx={{ color: '#666666' }}>
+                    {executionState.latestComparison.interval}
+                  </Typography>
+                )}
               </Box>
             )}
           </Box>
@@ -1728,7 +1991,85 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
               <BugReportIcon />
             </IconButton>
           </Tooltip>
-          {executionState.status === 'running' && (
+          <Tooltip title="Compare Runs">
+            <IconButton
+              onClick={() => setIsRunDiffOpen(true)}
+              sx={{
+                color: '#666666',
+                '&:hover': {
+                  color: '#333333',
+                }
+              }}
+            >
+              <DifferenceIcon />
+            </IconButton>
+          </Tooltip>
+          {executionState.logs.length > 0 && (
+            <Tooltip title="Save Intermediate Results">
+              <IconButton
+                onClick={handleSave}
+                sx={{
+                  color: '#666666',
+                  '&:hover': {
+                    color: '#333333',
+                  }
+                }}
+              >
+                <SaveIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          {canResume && runDirectory && onResumeRun && executionState.status !== 'running' && (
+            <Tooltip title="Continue this run, skipping items that were already completed">
+              <span>
+                <Button
+                  variant="contained"
+                  startIcon={<PlayArrowIcon />}
+                  onClick={onResumeRun}
+                  sx={{
+                    bgcolor: '#10a37f',
+                    '&:hover': {
+                      bgcolor: '#0d8c6d',
+                      boxShadow: '0 2px 8px rgba(16, 163, 127, 0.3)'
+                    },
+                    boxShadow: '0 2px 4px rgba(16, 163, 127, 0.2)',
+                    borderRadius: '8px',
+                    textTransform: 'none',
+                    fontWeight: 500,
+                    px: 2
+                  }}
+                >
+                  Resume Run
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          {(executionState.status === 'running' || executionState.status === 'paused') && (
+            <Tooltip title={executionState.status === 'paused' ? "Resume Flow Execution" : "Pause Flow Execution"}>
+              <span>
+                <Button
+                  variant="outlined"
+                  startIcon={executionState.status === 'paused' ? <PlayArrowIcon /> : <PauseIcon />}
+                  onClick={handlePause}
+                  sx={{
+                    color: '#673ab7',
+                    borderColor: '#673ab7',
+                    '&:hover': {
+                      borderColor: '#5e35b1',
+                      bgcolor: 'rgba(103, 58, 183, 0.04)'
+                    },
+                    borderRadius: '8px',
+                    textTransform: 'none',
+                    fontWeight: 500,
+                    px: 2
+                  }}
+                >
+                  {executionState.status === 'paused' ? 'Resume' : 'Pause'}
+                </Button>
+              </span>
+            </Tooltip>
+          )}
+          {(executionState.status === 'running' || executionState.status === 'paused') && (
             <Tooltip title="Stop Flow Execution">
               <span>
                 <Button
@@ -2105,6 +2446,27 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
                     </Typography>
                   </LogWrapper>
                 );
+              } else if (log.type === 'retry') {
+                return (
+                  <LogWrapper>
+                    <Typography
+                      variant="body2"
+                      sx={{
+                        fontFamily: 'monospace',
+                        whiteSpace: 'pre-wrap',
+                        wordBreak: 'break-all',
+                        lineHeight: 1.5,
+                        fontSize: '0.875rem',
+                        color: '#b26a00',
+                        '&:hover': {
+                          bgcolor: '#f8f9fa',
+                        },
+                      }}
+                    >
+                      ↻ {log.nodeName}: attempt {log.attempt}/{log.maxAttempts} failed ({(log.retryReason || '').replace(/_/g, ' ')}{log.retryMessage ? `: ${log.retryMessage}` : ''}){log.retryDelayMs !== undefined ? `, retrying in ${(log.retryDelayMs / 1000).toFixed(1)}s` : ', giving up'}
+                    </Typography>
+                  </LogWrapper>
+                );
               } else if (log.type === 'transform' || log.type === 'input' || log.type === 'import' || log.type === 'comparison_in_log' || log.type === 'export') {
                 // Skip if this is a comparison_in_log or export and we've already shown one for this node
                 if (log.type === 'comparison_in_log' || log.type === 'export') {
@@ -2128,7 +2490,7 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
                     case 'transform':
                       return 'Inspect data';
                     case 'comparison_in_log':
-                      return `View comparison details (${log.list1Size}/${log.list2Size} items)`;
+                      return `View comparison details (${(log.listSizes || [log.list1Size, log.list2Size]).join('/')} items)`;
                     case 'export':
                       return `View export details (${log.outputFilename})`;
                     default:
@@ -2220,11 +2582,54 @@ const FlowExecutionWindow: React.FC<FlowExecutionWindowProps> = ({ project, onCl
         </Paper>
       </Box>
 
+      {/* Run Diff Dialog */}
+      <RunDiffDialog
+        open={isRunDiffOpen}
+        onClose={() => setIsRunDiffOpen(false)}
+        projectId={project.id}
+        currentRunId={recordedRun?.id || runIdRef.current}
+      />
+
       {/* Inspection Dialog */}
       {inspectionDialog && (
         <InspectionDialog
           log={inspectionDialog}
           onClose={() => setInspectionDialog(null)}
+          onReview={inspectionDialog.nodeId ? () => {
+            setAdjudicationLog(inspectionDialog);
+            setInspectionDialog(null);
+          } : undefined}
+        />
+      )}
+
+      {/* Manual Coding */}
+      {manualCodingQueue.length > 0 && (
+        <ManualCodingDialog
+          request={manualCodingQueue[0]}
+          waiting={manualCodingQueue.length - 1}
+          coded={manualCodedCount}
+          onSubmit={(label) => answerManualCoding(manualCodingQueue[0], { label })}
+          onSkip={() => answerManualCoding(manualCodingQueue[0], { skipped: true })}
+          onStop={handleStop}
+        />
+      )}
+
+      {/* Disagreement Review */}
+      {adjudicationLog?.nodeId && adjudicationLog.comparisonReport && (
+        <AdjudicationDialog
+          open={true}
+          onClose={() => setAdjudicationLog(null)}
+          project={recordedRun?.project || project}
+          comparison={{
+            nodeId: adjudicationLog.nodeId,
+            nodeName: adjudicationLog.nodeName,
+            report: adjudicationLog.comparisonReport,
+          }}
+          logs={executionState.logs.filter((log): log is LogData => typeof log !== 'string')}
+          onSaved={(filePath, itemCount) => setExecutionState(prev => ({
+            ...prev,
+            logs: [...prev.logs, `[${new Date().toLocaleTimeString()}] Saved ${itemCount} adjudicated items to ${filePath}`]
+          }))}
         />
       )}
 
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Box, Typography, Paper } from '@mui/material';
+import { ImportPreview } from '../types/Project';
+import { formatOutput } from '../utils/runDiff';
+
+interface ImportPreviewPanelProps {
+  preview?: ImportPreview;
+  loading: boolean;
+  attributePath?: string;  // Attribute the node's Extract JSON Attribute action reads
+  onPickAttribute?: (path: string) => void;  // Not set when the node uses another action
+}
+
+const cellStyle = {
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+  fontSize: '0.75rem',
+  color: '#495057',
+  overflow: 'hidden',
+  textOverflow: 'ellipsis',
+  whiteSpace: 'nowrap' as const,
+};
+
+const sectionStyle = {
+  bgcolor: '#f8f9fa',
+  p: 1,
+  borderRadius: '6px',
+  border: '1px solid #e9ecef',
+  overflowX: 'auto' as const,
+};
+
+// Function to read an attribute of an item in dot notation, like Extract JSON Attribute does
+const valueAt = (item: any, path: string) =>
+  path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), item);
+
+const ImportPreviewPanel: React.FC<ImportPreviewPanelProps> = ({ preview, loading, attributePath, onPickAttribute }) => {
+  const columns = preview?.columns || [];
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+        Data Preview
+      </Typography>
+      <Paper
+        variant="outlined"
+        sx={{
+          p: 1.5,
+          borderRadius: 1,
+          bgcolor: 'background.paper',
+        }}
+      >
+        {loading ? (
+          <Typography variant="body2" color="text.secondary">
+            Reading the file...
+          </Typography>
+        ) : preview?.error ? (
+          <Typography variant="body2" color="error" sx={{ wordBreak: 'break-word' }}>
+            {preview.error}
+          </Typography>
+        ) : preview && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+            <Typography variant="body2" sx={{ color: '#495057' }}>
+              {preview.rowCount} items{columns.length > 0 && `, ${columns.length} attributes`}
+            </Typography>
+
+            {columns.length > 0 && (
+              <Box>
+                <Box sx={sectionStyle}>
+                  <Box sx={{ display: 'grid', gridTemplateColumns: 'minmax(100px, 2fr) minmax(60px, 1fr) auto', gap: 0.5, columnGap: 1.5 }}>
+                    {['Attribute', 'Type', 'Empty'].map((header, index) => (
+                      <Typography key={header} sx={{ ...cellStyle, fontWeight: 600, textAlign: index === 2 ? 'right' : 'left' }}>
+                        {header}
+                      </Typography>
+                    ))}
+                    {columns.map(column => (
+                      <React.Fragment key={column.path}>
+                        <Typography
+                          title={column.path}
+                          onClick={onPickAttribute ? () => onPickAttribute(column.path) : undefined}
+                          sx={{
+                            ...cellStyle,
+                            ...(onPickAttribute && {
+                              color: '#10a37f',
+                              cursor: 'pointer',
+                              '&:hover': { textDecoration: 'underline' },
+                            }),
+                            fontWeight: column.path === attributePath ? 600 : 400,
+                          }}
+                        >
+                          {column.path}
+                        </Typography>
+                        <Typography sx={cellStyle} title={column.types.join(', ')}>
+                          {column.types.length > 0 ? column.types.join(', ') : 'empty'}
+                        </Typography>
+                        <Typography sx={{ ...cellStyle, textAlign: 'right', color: column.empty > 0 ? '#dc3545' : '#adb5bd' }}>
+                          {column.empty}
+                        </Typography>
+                      </React.Fragment>
+                    ))}
+                  </Box>
+                </Box>
+                <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5, display: 'block' }}>
+                  {onPickAttribute
+                    ? 'Click an attribute to read it with Extract JSON Attribute.'
+                    : 'Choose the Extract JSON Attribute action to read an attribute by clicking it.'}
+                </Typography>
+              </Box>
+            )}
+
+            {preview.rows.length > 0 && (
+              <Box>
+                <Typography variant="caption" color="text.secondary" sx={{ mb: 0.5, display: 'block' }}>
+                  First {preview.rows.length} items
+                </Typography>
+                <Box sx={sectionStyle}>
+                  {columns.length > 0 ? (
+                    <Box sx={{ display: 'grid', gridTemplateColumns: `repeat(${columns.length}, minmax(80px, 160px))`, gap: 0.5, columnGap: 1.5 }}>
+                      {columns.map(column => (
+                        <Typography key={column.path} sx={{ ...cellStyle, fontWeight: 600 }} title={column.path}>
+                          {column.path}
+                        </Typography>
+                      ))}
+                      {preview.rows.map((row, rowIndex) => columns.map(column => {
+                        const value = formatOutput(valueAt(row, column.path));
+                        return (
+                          <Typography key={`${rowIndex}-${column.path}`} sx={cellStyle} title={value.slice(0, 1000)}>
+                            {value}
+                          </Typography>
+                        );
+                      }))}
+                    </Box>
+                  ) : (
+                    preview.rows.map((row, rowIndex) => (
+                      <Typography key={rowIndex} sx={cellStyle} title={formatOutput(row).slice(0, 1000)}>
+                        {formatOutput(row).slice(0, 200)}
+                      </Typography>
+                    ))
+                  )}
+                </Box>
+              </Box>
+            )}
+          </Box>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default ImportPreviewPanel;
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Chip,
+} from '@mui/material';
+import { ManualCodingRequest } from '../types/Project';
+import { formatOutput } from '../utils/runDiff';
+
+interface ManualCodingDialogProps {
+  request: ManualCodingRequest;
+  waiting: number;  // Requests queued after this one
+  coded: number;    // Items coded so far in this run
+  onSubmit: (label: string | string[]) => void;
+  onSkip: () => void;
+  onStop: () => void;
+}
+
+const cellStyle = {
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+  fontSize: '0.875rem',
+  color: '#333333',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-word' as const,
+};
+
+// Labels after the ninth have no number key
+const shortcutFor = (index: number) => (index < 9 ? String(index + 1) : undefined);
+
+const ManualCodingDialog: React.FC<ManualCodingDialogProps> = ({ request, waiting, coded, onSubmit, onSkip, onStop }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  // Every item starts without a label
+  useEffect(() => {
+    setSelected([]);
+  }, [request.requestId]);
+
+  const pickLabel = useCallback((label: string) => {
+    if (!request.multipleLabels) {
+      onSubmit(label);
+      return;
+    }
+    setSelected(current => current.includes(label) ? current.filter(l => l !== label) : [...current, label]);
+  }, [request.multipleLabels, onSubmit]);
+
+  // Number keys pick a label, Enter submits the labels picked for a multi-label item
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const index = parseInt(event.key) - 1;
+      if (index >= 0 && index < Math.min(9, request.labels.length)) {
+        event.preventDefault();
+        pickLabel(request.labels[index]);
+      } else if (event.key === 'Enter' && request.multipleLabels && selected.length > 0) {
+        event.preventDefault();
+        onSubmit(request.labels.filter(label => selected.includes(label)));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [request, selected, pickLabel, onSubmit]);
+
+  return (
+    <Dialog
+      open={true}
+      maxWidth="md"
+      fullWidth
+      disableEscapeKeyDown
+      PaperProps={{
+        sx: {
+          maxHeight: '85vh',
+          bgcolor: '#ffffff',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+        },
+      }}
+    >
+      <DialogTitle sx={{
+        borderBottom: '1px solid #e0e0e0',
+        pb: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Typography variant="h6" sx={{
+          fontFamily: 'monospace',
+          fontSize: '1.1rem',
+          color: '#333333'
+        }}>
+          Manual Coding: {request.nodeName}
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#666666' }}>
+          {coded} coded{waiting > 0 && `, ${waiting} waiting`}
+        </Typography>
+      </DialogTitle>
+      <DialogContent sx={{
+        p: 3,
+        '&.MuiDialogContent-root': {
+          pt: 2
+        }
+      }}>
+        {request.instructions && (
+          <Typography variant="body2" sx={{ color: '#666666', mb: 2, whiteSpace: 'pre-wrap' }}>
+            {request.instructions}
+          </Typography>
+        )}
+        <Box sx={{
+          bgcolor: '#f8f9fa',
+          p: 2,
+          borderRadius: '6px',
+          border: '1px solid #e9ecef',
+          maxHeight: '40vh',
+          overflow: 'auto',
+          mb: 2,
+        }}>
+          <Box sx={cellStyle}>{formatOutput(request.input)}</Box>
+        </Box>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {request.labels.map((label, index) => {
+            const isSelected = selected.includes(label);
+            const shortcut = shortcutFor(index);
+            return (
+              <Chip
+                key={label}
+                label={shortcut ? `${shortcut}  ${label}` : label}
+                variant={isSelected ? 'filled' : 'outlined'}
+                onClick={() => pickLabel(label)}
+                sx={{
+                  fontFamily: cellStyle.fontFamily,
+                  whiteSpace: 'pre',
+                  ...(isSelected && { bgcolor: 'rgba(103, 58, 183, 0.15)', color: '#673ab7' }),
+                }}
+              />
+            );
+          })}
+        </Box>
+        <Typography variant="caption" sx={{ color: '#666666', mt: 1.5, display: 'block' }}>
+          {request.multipleLabels
+            ? 'Press the number keys to pick labels and Enter to code the item with them.'
+            : 'Press the number key of a label to code the item with it.'}
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2, gap: 1 }}>
+        <Button onClick={onStop} sx={{ color: '#dc3545', mr: 'auto' }}>
+          Stop Flow
+        </Button>
+        <Button onClick={onSkip} sx={{ color: '#666666' }}>
+          Skip Item
+        </Button>
+        {request.multipleLabels && (
+          <Button
+            variant="contained"
+            disabled={selected.length === 0}
+            onClick={() => onSubmit(request.labels.filter(label => selected.includes(label)))}
+            sx={{
+              bgcolor: '#673ab7',
+              '&:hover': {
+                bgcolor: '#5e35b1',
+              },
+            }}
+          >
+            Code Item
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ManualCodingDialog;
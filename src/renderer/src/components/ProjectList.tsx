@@ -29,8 +29,9 @@ import {
   FormControlLabel,
   Checkbox,
 } from '@mui/material';
-import { Project, Action, ActionType } from '../types/Project';
+import { Project, Action, ActionType, RunSummary } from '../types/Project';
 import DeleteIcon from '@mui/icons-material/Delete';
+import HistoryIcon from '@mui/icons-material/History';
 import AddIcon from '@mui/icons-material/Add';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
 import FileDownloadIcon from '@mui/icons-material/FileDownload';
@@ -56,6 +57,7 @@ interface ProjectListProps {
   setGlobalActions: React.Dispatch<React.SetStateAction<Action[]>>;
   onActionDragStart?: (event: React.DragEvent, action: Action) => void;
   onActionDragEnd?: () => void;
+  onOpenRun?: (run: RunSummary) => void;
 }
 
 const ITEM_HEIGHT = 48;
@@ -92,6 +94,7 @@ const ProjectList: React.FC<ProjectListProps> = ({
   setGlobalActions,
   onActionDragStart,
   onActionDragEnd,
+  onOpenRun,
 }) => {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isExportProjectsDialogOpen, setIsExportProjectsDialogOpen] = useState(false);
@@ -103,6 +106,8 @@ const ProjectList: React.FC<ProjectListProps> = ({
   const [activeTab, setActiveTab] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTypes, setSelectedTypes] = useState<ActionType[]>([]);
+  const [historyProject, setHistoryProject] = useState<Project | null>(null);
+  const [runHistory, setRunHistory] = useState<RunSummary[]>([]);
 
   // Get unique actions from all projects and built-in actions
   const uniqueActions = React.useMemo(() => {
@@ -302,6 +307,54 @@ const ProjectList: React.FC<ProjectListProps> = ({
     onDeleteProject(projectId);
   };
 
+  const handleOpenHistory = async (project: Project, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setHistoryProject(project);
+    setRunHistory([]);
+    if (window.electron) {
+      const runs = await window.electron.ipcRenderer.invoke('get-run-history', project.id);
+      setRunHistory(runs || []);
+    }
+  };
+
+  const handleOpenRun = (run: RunSummary) => {
+    setHistoryProject(null);
+    onOpenRun?.(run);
+  };
+
+  const handleDeleteRun = async (runId: string, event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (window.electron) {
+      await window.electron.ipcRenderer.invoke('delete-run-record', runId);
+    }
+    setRunHistory(prev => prev.filter(r => r.id !== runId));
+  };
+
+  // Summarize what a run processed and produced for the history list
+  const describeRun = (run: RunSummary) => {
+    const parts = [
+      run.llmConfig?.model,
+      ...run.itemCounts.map(counts => `${counts.nodeName}: ${counts.current}/${counts.total} items`),
+      run.errors.length > 0 ? `${run.errors.length} error${run.errors.length === 1 ? '' : 's'}` : undefined,
+      ...run.comparisons.map(comparison => `${comparison.nodeName}: ${comparison.result}`),
+      ...run.exports.map(exported => `Exported to ${exported.path}`)
+    ];
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  const getRunStatusColor = (status: RunSummary['status']) => {
+    switch (status) {
+      case 'completed':
+        return '#28a745';
+      case 'failed':
+        return '#dc3545';
+      case 'terminated':
+        return '#fd7e14';
+      default:
+        return '#666666';
+    }
+  };
+
   const handleDragStart = (event: React.DragEvent, action: Action) => {
     if (onActionDragStart) {
       onActionDragStart(event, action);
@@ -673,6 +726,21 @@ const ProjectList: React.FC<ProjectListProps> = ({
                         {project.description}
                       </Typography>
                     </Box>
+                    <IconButton
+                      size="small"
+                      onClick={(e) => handleOpenHistory(project, e)}
+                      title="Run history"
+                      sx={{
+                        color: '#666666',
+                        flexShrink: 0,
+                        padding: 0.5,
+                        '&:hover': {
+                          backgroundColor: 'rgba(0, 0, 0, 0.04)',
+                        },
+                      }}
+                    >
+                      <HistoryIcon sx={{ fontSize: '1rem' }} />
+                    </IconButton>
                     <IconButton
                       size="small"
                       onClick={(e) => {
@@ -910,6 +978,114 @@ const ProjectList: React.FC<ProjectListProps> = ({
         </DialogActions>
       </Dialog>
 
+      {/* Run History Dialog */}
+      <Dialog 
+        open={!!historyProject} 
+        onClose={() => setHistoryProject(null)}
+        PaperProps={{
+          sx: {
+            borderRadius: 2,
+            minWidth: 600,
+            background: 'linear-gradient(145deg, #ffffff 0%, #f8f8f9 100%)',
+            boxShadow: '0 8px 24px rgba(0, 0, 0, 0.12)',
+          },
+        }}
+      >
+        <DialogTitle sx={{ 
+          borderBottom: '1px solid rgba(0, 0, 0, 0.1)',
+          pb: 2,
+          '& .MuiTypography-root': {
+            fontSize: '1.1rem',
+            fontWeight: 600,
+            color: '#333333',
+          },
+        }}>
+          Run History: {historyProject?.name}
+        </DialogTitle>
+        <DialogContent sx={{ pt: 3 }}>
+          {runHistory.length === 0 ? (
+            <Typography variant="body2" sx={{ color: '#666666', mt: 2 }}>
+              This project has not been run yet.
+            </Typography>
+          ) : (
+            <List sx={{ 
+              mt: 2,
+              maxHeight: 400, 
+              overflow: 'auto', 
+              bgcolor: 'white',
+              borderRadius: 1,
+              border: '1px solid rgba(0, 0, 0, 0.1)',
+              '& .MuiListItemButton-root': {
+                '&:hover': {
+                  backgroundColor: 'rgba(0, 0, 0, 0.02)',
+                },
+              },
+            }}>
+              {runHistory.map((run) => (
+                <ListItem key={run.id} disablePadding>
+                  <ListItemButton dense onClick={() => handleOpenRun(run)}>
+                    <ListItemText 
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {new Date(run.startedAt).toLocaleString()}
+                          <Chip
+                            label={run.status}
+                            size="small"
+                            sx={{
+                              height: 20,
+                              fontSize: '0.7rem',
+                              color: getRunStatusColor(run.status),
+                              bgcolor: `${getRunStatusColor(run.status)}15`,
+                            }}
+                          />
+                        </Box>
+                      }
+                      secondary={describeRun(run)}
+                      primaryTypographyProps={{
+                        component: 'div',
+                        sx: { color: '#333333', fontSize: '0.9rem' }
+                      }}
+                      secondaryTypographyProps={{
+                        sx: { color: '#666666', fontSize: '0.8rem' }
+                      }}
+                    />
+                    <IconButton
+                      size="small"
+                      onClick={(e) => handleDeleteRun(run.id, e)}
+                      sx={{
+                        color: '#dc3545',
+                        '&:hover': {
+                          backgroundColor: 'rgba(220, 53, 69, 0.08)',
+                        },
+                      }}
+                    >
+                      <DeleteIcon sx={{ fontSize: '1rem' }} />
+                    </IconButton>
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ 
+          borderTop: '1px solid rgba(0, 0, 0, 0.1)',
+          px: 3,
+          py: 2,
+        }}>
+          <Button 
+            onClick={() => setHistoryProject(null)}
+            sx={{
+              color: '#666666',
+              '&:hover': {
+                backgroundColor: 'rgba(0, 0, 0, 0.04)',
+              },
+            }}
+          >
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Export Projects Dialog */}
       <Dialog 
         open={isExportProjectsDialogOpen} 
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Chip,
+  Stack,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { LLMProvider } from '../types/Project';
+
+interface ProviderSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  provider: LLMProvider;
+  onSave: (provider: LLMProvider) => void;
+}
+
+// Defaults of common OpenAI-compatible servers
+const providerPresets: LLMProvider[] = [
+  { name: 'LM Studio', baseUrl: 'http://127.0.0.1', port: 1234, endpoint: 'v1/chat/completions', modelsEndpoint: 'api/v0/models' },
+  { name: 'Ollama', baseUrl: 'http://127.0.0.1', port: 11434, endpoint: 'v1/chat/completions', modelsEndpoint: 'v1/models' },
+  { name: 'llama.cpp server', baseUrl: 'http://127.0.0.1', port: 8080, endpoint: 'v1/chat/completions', modelsEndpoint: 'v1/models' },
+  { name: 'vLLM', baseUrl: 'http://127.0.0.1', port: 8000, endpoint: 'v1/chat/completions', modelsEndpoint: 'v1/models' },
+];
+
+const ProviderSettingsDialog: React.FC<ProviderSettingsDialogProps> = ({ open, onClose, provider, onSave }) => {
+  const [draft, setDraft] = useState<LLMProvider>(provider);
+
+  // Start from the saved profile every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(provider);
+    }
+  }, [open, provider]);
+
+  const updateDraft = (changes: Partial<LLMProvider>) => setDraft(current => ({ ...current, ...changes }));
+
+  const isValid = draft.name.trim() !== '' && draft.baseUrl.trim() !== '' && draft.port > 0 && draft.endpoint.trim() !== '';
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="sm"
+      fullWidth
+      PaperProps={{
+        sx: {
+          bgcolor: '#ffffff',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+        },
+      }}
+    >
+      <DialogTitle sx={{
+        borderBottom: '1px solid #e0e0e0',
+        pb: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Typography variant="h6" sx={{
+          fontFamily: 'monospace',
+          fontSize: '1.1rem',
+          color: '#333333'
+        }}>
+          LLM Provider
+        </Typography>
+        <IconButton
+          onClick={onClose}
+          size="small"
+          sx={{
+            color: '#666666',
+            '&:hover': {
+              color: '#10a37f',
+              bgcolor: 'rgba(16, 163, 127, 0.1)',
+            },
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent sx={{
+        p: 3,
+        '&.MuiDialogContent-root': {
+          pt: 2
+        }
+      }}>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1.5 }}>
+          Any server with an OpenAI-compatible chat completions API can run the flow.
+        </Typography>
+        <Stack direction="row" spacing={1} sx={{ mb: 3, flexWrap: 'wrap', gap: 1 }}>
+          {providerPresets.map(preset => (
+            <Chip
+              key={preset.name}
+              label={preset.name}
+              size="small"
+              variant={draft.name === preset.name ? 'filled' : 'outlined'}
+              onClick={() => updateDraft(preset)}
+              sx={{
+                ...(draft.name === preset.name && {
+                  bgcolor: 'rgba(103, 58, 183, 0.12)',
+                  color: '#673ab7',
+                }),
+              }}
+            />
+          ))}
+        </Stack>
+
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Name"
+            size="small"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Base URL"
+              size="small"
+              value={draft.baseUrl}
+              onChange={(e) => updateDraft({ baseUrl: e.target.value })}
+              placeholder="http://127.0.0.1"
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="Port"
+              size="small"
+              type="number"
+              value={draft.port}
+              onChange={(e) => updateDraft({ port: parseInt(e.target.value) || 0 })}
+              inputProps={{ min: 1, max: 65535 }}
+              sx={{ width: 120 }}
+            />
+          </Box>
+          <TextField
+            label="Chat completions endpoint"
+            size="small"
+            value={draft.endpoint}
+            onChange={(e) => updateDraft({ endpoint: e.target.value })}
+            placeholder="v1/chat/completions"
+          />
+          <TextField
+            label="Models endpoint"
+            size="small"
+            value={draft.modelsEndpoint}
+            onChange={(e) => updateDraft({ modelsEndpoint: e.target.value })}
+            placeholder="v1/models"
+            helperText="Used to list the models in the model selection"
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="API key header"
+              size="small"
+              value={draft.apiKeyHeader || ''}
+              onChange={(e) => updateDraft({ apiKeyHeader: e.target.value })}
+              placeholder="Authorization"
+              sx={{ width: 200 }}
+            />
+            <TextField
+              label="API key"
+              size="small"
+              type="password"
+              value={draft.apiKey || ''}
+              onChange={(e) => updateDraft({ apiKey: e.target.value })}
+              helperText="Optional"
+              sx={{ flex: 1 }}
+            />
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#666666' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!isValid}
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), baseUrl: draft.baseUrl.trim() })}
+          sx={{
+            bgcolor: '#673ab7',
+            '&:hover': {
+              bgcolor: '#5e35b1',
+            },
+          }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProviderSettingsDialog;
@@ -0,0 +1,148 @@
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  TextField,
+  Switch,
+  FormControlLabel,
+  Checkbox,
+  Paper,
+} from '@mui/material';
+import { RetryPolicy } from '../types/Project';
+
+interface RetryPolicyPanelProps {
+  policy?: RetryPolicy;
+  onChange: (policy: RetryPolicy | undefined) => void;
+}
+
+const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  retryOn: {
+    timeout: true,
+    serverError: true,
+    emptyOutput: true,
+    invalidJson: false,
+  },
+};
+
+const retryConditions: { key: keyof RetryPolicy['retryOn']; label: string }[] = [
+  { key: 'timeout', label: 'Timeouts and dropped connections' },
+  { key: 'serverError', label: 'Server errors (HTTP 5xx)' },
+  { key: 'emptyOutput', label: 'Empty output' },
+  { key: 'invalidJson', label: 'Output that is not valid JSON' },
+];
+
+const textFieldStyles = {
+  '& .MuiOutlinedInput-root': {
+    borderRadius: 1,
+    '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+      borderColor: '#673ab7',
+    },
+  },
+  '& .MuiInputLabel-root.Mui-focused': {
+    color: '#673ab7',
+  },
+};
+
+const RetryPolicyPanel: React.FC<RetryPolicyPanelProps> = ({ policy, onChange }) => {
+  const updatePolicy = (changes: Partial<RetryPolicy>) => {
+    if (policy) {
+      onChange({ ...policy, ...changes });
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" color="text.secondary" sx={{ mb: 1 }}>
+        Retry Policy
+      </Typography>
+      <Paper
+        variant="outlined"
+        sx={{
+          p: 1.5,
+          borderRadius: 1,
+          bgcolor: 'background.paper',
+        }}
+      >
+        <FormControlLabel
+          control={
+            <Switch
+              checked={!!policy}
+              onChange={(e) => onChange(e.target.checked ? defaultRetryPolicy : undefined)}
+              size="small"
+              sx={{
+                '& .MuiSwitch-switchBase.Mui-checked': {
+                  color: '#673ab7',
+                },
+                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                  backgroundColor: '#673ab7',
+                },
+              }}
+            />
+          }
+          label={<Typography variant="body2">Retry failed calls</Typography>}
+        />
+        {policy && (
+          <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+            <Stack direction="row" spacing={1}>
+              <TextField
+                label="Max attempts"
+                type="number"
+                size="small"
+                value={policy.maxAttempts}
+                onChange={(e) => updatePolicy({ maxAttempts: Math.max(1, parseInt(e.target.value) || 1) })}
+                inputProps={{ min: 1 }}
+                sx={{ flex: 1, ...textFieldStyles }}
+              />
+              <TextField
+                label="First delay (ms)"
+                type="number"
+                size="small"
+                value={policy.initialDelayMs}
+                onChange={(e) => updatePolicy({ initialDelayMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                inputProps={{ min: 0, step: 100 }}
+                sx={{ flex: 1, ...textFieldStyles }}
+              />
+              <TextField
+                label="Backoff factor"
+                type="number"
+                size="small"
+                value={policy.backoffFactor}
+                onChange={(e) => updatePolicy({ backoffFactor: Math.max(1, parseFloat(e.target.value) || 1) })}
+                inputProps={{ min: 1, step: 0.5 }}
+                sx={{ flex: 1, ...textFieldStyles }}
+              />
+            </Stack>
+            <Box>
+              {retryConditions.map(({ key, label }) => (
+                <FormControlLabel
+                  key={key}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={policy.retryOn[key]}
+                      onChange={(e) => updatePolicy({ retryOn: { ...policy.retryOn, [key]: e.target.checked } })}
+                      sx={{ '&.Mui-checked': { color: '#673ab7' } }}
+                    />
+                  }
+                  label={<Typography variant="body2">{label}</Typography>}
+                  sx={{ display: 'flex' }}
+                />
+              ))}
+            </Box>
+          </Stack>
+        )}
+      </Paper>
+      {policy && (
+        <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+          Waits {policy.initialDelayMs} ms before the second attempt and {policy.backoffFactor}× longer before every attempt after it. Items still failing after {policy.maxAttempts} attempts are reported as errors.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default RetryPolicyPanel;
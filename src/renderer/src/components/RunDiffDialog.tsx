@@ -0,0 +1,262 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Chip,
+  Paper,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { RunRecord, RunSummary } from '../types/Project';
+import { diffRuns, formatOutput, ItemDiff } from '../utils/runDiff';
+
+interface RunDiffDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectId: string;
+  currentRunId?: string;  // Compared against the run before it by default
+}
+
+const cellStyle = {
+  fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+  fontSize: '0.8125rem',
+  color: '#495057',
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const,
+  overflow: 'hidden',
+  maxHeight: 120,
+};
+
+const describeRun = (run: RunSummary) =>
+  `${new Date(run.startedAt).toLocaleString()} · ${run.llmConfig?.model || 'default model'} · ${run.status}`;
+
+const RunDiffDialog: React.FC<RunDiffDialogProps> = ({ open, onClose, projectId, currentRunId }) => {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [records, setRecords] = useState<Record<string, RunRecord>>({});  // Compared runs with their outputs, by id
+  const [runAId, setRunAId] = useState('');
+  const [runBId, setRunBId] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Load the project's runs, newest first, whenever the dialog opens
+  useEffect(() => {
+    if (!open || !window.electron) return;
+    window.electron.ipcRenderer.invoke('get-run-history', projectId).then((loadedRuns: RunSummary[]) => {
+      const history = loadedRuns || [];
+      setRuns(history);
+      setRecords({});
+      const currentIndex = Math.max(0, history.findIndex(r => r.id === currentRunId));
+      setRunBId(history[currentIndex]?.id || '');
+      setRunAId(history[currentIndex + 1]?.id || '');
+    });
+  }, [open, projectId, currentRunId]);
+
+  // Read the outputs of the chosen runs from their run directories
+  useEffect(() => {
+    const electron = window.electron;
+    if (!electron) return;
+    [runAId, runBId].filter(id => id && !records[id]).forEach(id => {
+      electron.ipcRenderer.invoke('get-run-record', id).then((record: RunRecord | null) => {
+        if (record) setRecords(prev => ({ ...prev, [id]: record }));
+      });
+    });
+  }, [runAId, runBId]);
+
+  const runA = records[runAId];
+  const runB = records[runBId];
+  const diff = useMemo(() => (runA && runB ? diffRuns(runA, runB) : null), [runA, runB]);
+
+  const renderRunSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <FormControl size="small" sx={{ flex: 1, minWidth: 0 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select value={value} label={label} onChange={(e) => onChange(e.target.value as string)}>
+        {runs.map(run => (
+          <MenuItem key={run.id} value={run.id} sx={{ fontSize: '0.875rem' }}>
+            {describeRun(run)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const renderItem = (item: ItemDiff) => (
+    <Box
+      key={item.itemIndex}
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: '60px 2fr 1fr 1fr',
+        gap: 1.5,
+        py: 1,
+        px: 1.5,
+        borderTop: '1px solid #e9ecef',
+        bgcolor: item.status === 'changed' ? '#fff8e1' : 'transparent',
+      }}
+    >
+      <Typography sx={{ ...cellStyle, color: '#666666' }}>#{item.itemIndex + 1}</Typography>
+      <Box sx={cellStyle}>{formatOutput(item.input)}</Box>
+      <Box sx={cellStyle}>{item.outputA === undefined ? '—' : formatOutput(item.outputA)}</Box>
+      <Box sx={{ ...cellStyle, color: item.status === 'changed' ? '#b26a00' : cellStyle.color }}>
+        {item.outputB === undefined ? '—' : formatOutput(item.outputB)}
+      </Box>
+    </Box>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+      PaperProps={{
+        sx: {
+          minHeight: '60vh',
+          maxHeight: '85vh',
+          bgcolor: '#ffffff',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+        },
+      }}
+    >
+      <DialogTitle sx={{
+        borderBottom: '1px solid #e0e0e0',
+        pb: 1.5,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        <Typography variant="h6" sx={{
+          fontFamily: 'monospace',
+          fontSize: '1.1rem',
+          color: '#333333'
+        }}>
+          Compare Runs
+        </Typography>
+        <IconButton
+          onClick={onClose}
+          size="small"
+          sx={{
+            color: '#666666',
+            '&:hover': {
+              color: '#10a37f',
+              bgcolor: 'rgba(16, 163, 127, 0.1)',
+            },
+          }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent sx={{
+        p: 3,
+        '&.MuiDialogContent-root': {
+          pt: 2
+        }
+      }}>
+        {runs.length < 2 ? (
+          <Typography variant="body2" sx={{ color: '#666666' }}>
+            Run this project at least twice to compare runs.
+          </Typography>
+        ) : (
+          <>
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 3 }}>
+              {renderRunSelect('Run A', runAId, setRunAId)}
+              {renderRunSelect('Run B', runBId, setRunBId)}
+              <FormControlLabel
+                control={<Checkbox size="small" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />}
+                label={<Typography variant="body2">Show unchanged</Typography>}
+                sx={{ flexShrink: 0 }}
+              />
+            </Box>
+
+            {diff && diff.comparisons.length > 0 && (
+              <Paper variant="outlined" sx={{ mb: 3, p: 2, borderRadius: 1 }}>
+                <Typography variant="subtitle2" sx={{ mb: 1, color: '#666666' }}>Comparison results</Typography>
+                {diff.comparisons.map(comparison => (
+                  <Box key={comparison.nodeId || comparison.nodeName} sx={{ display: 'flex', gap: 2, alignItems: 'baseline', py: 0.5 }}>
+                    <Typography variant="body2" sx={{ flex: 1, color: '#333333' }}>
+                      {comparison.nodeName} ({comparison.actionName})
+                    </Typography>
+                    <Typography sx={cellStyle}>
+                      {comparison.resultA ?? '—'} → {comparison.resultB ?? '—'}
+                    </Typography>
+                    {comparison.delta !== undefined && (
+                      <Chip
+                        size="small"
+                        label={`${comparison.delta >= 0 ? '+' : ''}${comparison.delta.toFixed(4)}`}
+                        sx={{
+                          fontFamily: 'monospace',
+                          color: comparison.delta >= 0 ? '#28a745' : '#dc3545',
+                          bgcolor: comparison.delta >= 0 ? '#28a74515' : '#dc354515',
+                        }}
+                      />
+                    )}
+                  </Box>
+                ))}
+              </Paper>
+            )}
+
+            {diff && diff.nodes.length === 0 && (
+              <Typography variant="body2" sx={{ color: '#666666' }}>
+                Neither run recorded transform outputs.
+              </Typography>
+            )}
+
+            {diff && diff.nodes.map(node => {
+              const items = node.items.filter(item => showUnchanged || item.status !== 'unchanged');
+              return (
+                <Paper key={node.nodeId} variant="outlined" sx={{ mb: 2, borderRadius: 1, overflow: 'hidden' }}>
+                  <Box sx={{ p: 1.5, bgcolor: '#f8f9fa', display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="subtitle2" sx={{ color: '#333333', mr: 1 }}>{node.nodeName}</Typography>
+                    <Chip
+                      size="small"
+                      label={`${node.changedCount} of ${node.items.length - node.missingCount} changed`}
+                      sx={{ bgcolor: node.changedCount > 0 ? '#fff3cd' : '#e9ecef' }}
+                    />
+                    {node.missingCount > 0 && (
+                      <Chip size="small" label={`${node.missingCount} only in one run`} sx={{ bgcolor: '#e9ecef' }} />
+                    )}
+                    {node.transitions.slice(0, 5).map(transition => (
+                      <Chip
+                        key={`${transition.from}→${transition.to}`}
+                        size="small"
+                        variant="outlined"
+                        label={`${transition.from.slice(0, 30)} → ${transition.to.slice(0, 30)}: ${transition.count}`}
+                        sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}
+                      />
+                    ))}
+                  </Box>
+                  <Box
+                    sx={{
+                      display: 'grid',
+                      gridTemplateColumns: '60px 2fr 1fr 1fr',
+                      gap: 1.5,
+                      py: 0.5,
+                      px: 1.5,
+                    }}
+                  >
+                    {['Item', 'Input', 'Run A', 'Run B'].map(header => (
+                      <Typography key={header} variant="caption" sx={{ color: '#666666', fontWeight: 600 }}>{header}</Typography>
+                    ))}
+                  </Box>
+                  {items.length > 0 ? items.map(renderItem) : (
+                    <Typography variant="body2" sx={{ px: 1.5, py: 1, color: '#666666', borderTop: '1px solid #e9ecef' }}>
+                      No changed items.
+                    </Typography>
+                  )}
+                </Paper>
+              );
+            })}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RunDiffDialog;
@@ -25,6 +25,8 @@ export interface Action {
   isBuiltIn?: boolean;
   description: string;
   wrapInAitomics?: boolean;
+  multiRater?: boolean;  // Comparison that takes the lists of all connected inputs instead of exactly two
+  chunks?: 'split' | 'combine';  // Transform splitting an item into chunks the transforms after it run on one by one, or combining them again
 }
 
 export interface Block {
@@ -34,10 +36,62 @@ export interface Block {
   content: string;
   position: { x: number; y: number };
   actionId?: string; // Reference to the action being used
-  config?: Record<string, any>; // Configuration values for the action
-  file?: string; // Name of the selected file for import nodes
+  config?: Record<string, any>; // Configuration values for the action, LLM actions may hold llmOverrides
+  file?: string; // Name of the selected file, or folder of documents, for import nodes
+  sheet?: string; // Sheet import nodes read from a spreadsheet, the first sheet when not set
+  csvOptions?: CsvOptions; // How import nodes read CSV and TSV files
   outputPath?: string; // Output folder path for export nodes
   outputFilename?: string; // Output filename for export nodes
+  retryPolicy?: RetryPolicy; // Retries of failed calls for transform nodes
+  bootstrap?: BootstrapSettings; // Confidence interval of the result for comparison nodes
+}
+
+// Dialect of the CSV and TSV files of an import node, unset fields keep the defaults
+export interface CsvOptions {
+  delimiter?: string;  // Comma for CSV and tab for TSV files by default
+  quote?: string;      // Double quote by default, empty to read quotes as text
+  encoding?: string;   // Node.js encoding of the file, utf-8 by default
+  header?: boolean;    // The first row names the columns, without it columns are named column_1, column_2, ...
+  bom?: boolean;       // Drop a byte order mark at the start of the file, on by default
+  comment?: string;    // Lines starting with it are skipped, e.g. #
+}
+
+// How a transform node runs a failed call again, the first call counts as an attempt
+export interface RetryPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;  // Wait before the second attempt, multiplied by backoffFactor for every attempt after it
+  backoffFactor: number;
+  retryOn: {
+    timeout: boolean;      // Timeouts and dropped connections
+    serverError: boolean;  // HTTP 5xx responses
+    emptyOutput: boolean;
+    invalidJson: boolean;  // Text output that does not parse as JSON
+  };
+}
+
+// How a comparison node resamples its items to estimate a confidence interval of its result
+export interface BootstrapSettings {
+  resamples: number;
+  seed: number;        // Same seed and items give the same interval
+  confidence: number;  // e.g. 0.95 for a 95% interval
+}
+
+// Which items of every import node a run processes, a run without sampling processes all of them
+export interface SamplingSettings {
+  mode: 'first' | 'random' | 'stratified' | 'range';
+  count: number;       // Items drawn, not used for ranges
+  seed: number;        // Same seed and items give the same sample
+  attribute?: string;  // Column or attribute path items are stratified by, dots separate nested attributes
+  ranges?: string;     // Item numbers of range sampling, one-based and inclusive, e.g. "1-50, 101-150"
+}
+
+export interface BootstrapInterval {
+  lower: number;
+  upper: number;
+  confidence: number;
+  resamples: number;  // Resamples the comparison could be calculated for
+  failed: number;     // Resamples the comparison failed on, e.g. when a category was not drawn
+  seed: number;
 }
 
 export type Edge = ReactFlowEdge;
@@ -49,6 +103,95 @@ export interface Project {
   content?: string;  // Optional content field
   blocks: Block[];
   edges: Edge[];
+  concurrency?: number;  // Items of an import node processed in parallel during a run
   createdAt: string;
   updatedAt: string;
-} 
\ No newline at end of file
+}
+
+// Model and sampling settings a transform node uses instead of the flow's, unset fields are inherited
+export interface LLMOverrides {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  seed?: number;
+}
+
+export interface LLMProvider {
+  name: string;
+  baseUrl: string;         // e.g. http://127.0.0.1
+  port: number;
+  endpoint: string;        // Chat completions path, e.g. v1/chat/completions
+  modelsEndpoint: string;  // Model listing path, api/v0/models for LM Studio and v1/models for most others
+  apiKeyHeader?: string;   // Authorization sends the key as a bearer token
+  apiKey?: string;
+}
+
+// How the raters of a comparison node agree, the confusion matrix and per category scores compare the second input against the first
+export interface AgreementReport {
+  items: number;    // Items coded by every rater
+  skipped: number;  // Items a rater failed on or did not code
+  percentAgreement: number | null;
+  raters: string[];  // Names of the compared inputs
+  categories: string[];
+  pairs: RaterPairAgreement[];  // One per pair of raters, in the order of the inputs
+  disagreements: { itemIndex: number; values: string[] }[];
+  interval?: BootstrapInterval;  // Set when the comparison node bootstraps its result
+}
+
+// Agreement of two raters of a comparison, the second one's categories scored against the first one's
+export interface RaterPairAgreement {
+  raters: [number, number];  // Indices of the two raters in the raters of the report
+  confusionMatrix: number[][];  // Rows are the first rater's categories, columns the second rater's
+  perCategory: Record<string, { precision: number | null; recall: number | null; f1: number | null; support: number }>;
+}
+
+// What an import node reads, shown in its preview before a run
+export interface ImportPreview {
+  rowCount: number;
+  rows: any[];  // The first items
+  columns: ImportPreviewColumn[];
+  error?: string;  // Why the file could not be read, the other fields are then empty
+}
+
+// An attribute of the items of an import node, nested attributes in dot notation
+export interface ImportPreviewColumn {
+  path: string;
+  types: string[];  // Types of its values, e.g. string, number or array
+  empty: number;    // Items where it is missing, null or an empty string
+}
+
+// An item a manual coding node waits on until the coder labels it
+export interface ManualCodingRequest {
+  requestId: string;
+  nodeId: string;
+  nodeName: string;
+  input: any;
+  labels: string[];
+  instructions?: string;
+  multipleLabels?: boolean;  // The coder picks any number of labels and the output is a list
+}
+
+export interface RunRecord {
+  id: string;
+  projectId: string;
+  projectName: string;
+  project: Project;  // Snapshot of the project as it was run
+  llmConfig?: {
+    model: string;
+    temperature: number;
+    maxTokens: number;
+  };
+  runDirectory?: string;  // Checkpoint directory of the run
+  status: 'running' | 'completed' | 'failed' | 'terminated';
+  startedAt: string;
+  endedAt?: string;
+  itemCounts: { nodeName: string; current: number; total: number }[];
+  errors: string[];
+  comparisons: { nodeId?: string; nodeName: string; actionName: string; list1: string; list2: string; lists?: string[]; result: string; interval?: string }[];
+  exports: { nodeName: string; path: string }[];
+  outputs: { nodeId: string; nodeName: string; itemIndex: number; sourceIndex?: number; input: any; output: any; error?: boolean }[];  // Per item output of every transform node, sourceIndex is the item's index in its file
+  logs: any[];  // Execution window logs, used to reopen the run
+}
+
+// Run as listed in the run history, its outputs and logs are kept in its run directory
+export type RunSummary = Omit<RunRecord, 'outputs' | 'logs'>;
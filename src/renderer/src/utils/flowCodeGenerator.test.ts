@@ -0,0 +1,398 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { generateFlowCode } from './flowCodeGenerator';
+import { Block, Project, SamplingSettings } from '../types/Project';
+
+const block = (id: string, type: Block['type'], fields: Partial<Block> = {}): Block => ({
+  id,
+  type,
+  name: id,
+  content: '',
+  position: { x: 0, y: 0 },
+  ...fields,
+});
+
+const project = (blocks: Block[], edges: [string, string][] = []): Project => ({
+  id: 'project',
+  name: 'Project',
+  description: '',
+  blocks,
+  edges: edges.map(([source, target]) => ({ id: `${source}-${target}`, source, target })),
+  createdAt: '',
+  updatedAt: '',
+});
+
+// Modules the generated code requires, packages of the flow dependencies are not needed by its helpers
+const flowRequire = (name: string) => {
+  const modules: Record<string, any> = { fs, path, crypto, './input-parsers': {}, 'p-limit': {} };
+  if (!(name in modules)) throw new Error(`Unexpected require: ${name}`);
+  return modules[name];
+};
+
+const silentConsole = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+// Function to evaluate the helpers of the generated code, everything before the flow itself runs
+function loadHelpers(flow: Project, sampling?: SamplingSettings, checkpointDir?: string, llmConfig?: Parameters<typeof generateFlowCode>[3]) {
+  const code = generateFlowCode(flow, [], sampling, llmConfig, checkpointDir);
+  const helpers = code.slice(0, code.indexOf('async function executeFlow()'));
+  return new Function('require', 'console', `${helpers}
+    return { llmConfig, pausePoint, retryReason, sampleIndices, agreementReport, seededRandom, bootstrapInterval, createLlmConfigLock, loadCheckpoint, saveCheckpoint };`)(flowRequire, silentConsole);
+}
+
+beforeAll(() => {
+  // The generator logs its progress for the devtools console
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const importOnly = project([block('import', 'import', { file: '/data/items.json' })]);
+
+describe('generated flow code', () => {
+  test('runs without the pause helper of the app when exported', async () => {
+    const { pausePoint } = loadHelpers(importOnly);
+    await expect(pausePoint('before item 1/1')).resolves.toBeUndefined();
+  });
+});
+
+describe('sampling', () => {
+  // Items as import nodes pass them on, the first six in group A and the others in group B
+  const items = Array.from({ length: 10 }, (_, index) => ({ output: { id: index, meta: { group: index < 6 ? 'A' : 'B' } } }));
+  const sample = (sampling: SamplingSettings, sampled = items) => loadHelpers(importOnly, sampling).sampleIndices(sampled, 'Reviews');
+
+  test('processes every item without sampling settings', () => {
+    expect(loadHelpers(importOnly).sampleIndices(items.slice(0, 3), 'Reviews')).toEqual([0, 1, 2]);
+  });
+
+  test('takes the first items', () => {
+    expect(sample({ mode: 'first', count: 3, seed: 0 })).toEqual([0, 1, 2]);
+    expect(sample({ mode: 'first', count: 30, seed: 0 })).toHaveLength(10);
+  });
+
+  test('draws the same random sample for the same seed in the order of the file', () => {
+    const indices = sample({ mode: 'random', count: 4, seed: 7 });
+    expect(indices).toHaveLength(4);
+    expect(new Set(indices).size).toBe(4);
+    expect([...indices].sort((a, b) => a - b)).toEqual(indices);
+    expect(sample({ mode: 'random', count: 4, seed: 7 })).toEqual(indices);
+  });
+
+  test('gives every stratum its share of the sample', () => {
+    const indices = sample({ mode: 'stratified', count: 5, seed: 1, attribute: 'meta.group' });
+    const groups = indices.map((index: number) => items[index].output.meta.group);
+    expect(groups.filter((group: string) => group === 'A')).toHaveLength(3);
+    expect(groups.filter((group: string) => group === 'B')).toHaveLength(2);
+  });
+
+  test('gives the items left over to the strata with the largest remainders', () => {
+    // Shares of 7 items are 4.2 of A and 2.8 of B, the item left over goes to B
+    const indices = sample({ mode: 'stratified', count: 7, seed: 1, attribute: 'meta.group' });
+    expect(indices.filter((index: number) => items[index].output.meta.group === 'B')).toHaveLength(3);
+  });
+
+  test('takes item ranges, one-based and inclusive, and ignores numbers past the end', () => {
+    expect(sample({ mode: 'range', count: 0, seed: 0, ranges: '9-12, 2-3, 5, 3' })).toEqual([1, 2, 4, 8, 9]);
+    expect(() => sample({ mode: 'range', count: 0, seed: 0, ranges: '1-3, four' })).toThrow('Invalid item range: four');
+  });
+});
+
+describe('agreement report', () => {
+  const coded = (...outputs: any[]) => outputs.map(output => ({ output }));
+
+  test('builds the confusion matrix and per category scores of the second rater against the first', () => {
+    const { agreementReport } = loadHelpers(importOnly);
+    const report = agreementReport([
+      coded('A', 'A', 'B', 'B', { error: true }, ' C '),
+      coded('A', 'B', 'B', 'B', 'A', 'C'),
+    ]);
+
+    // The item the first rater failed on is left out
+    expect(report.items).toBe(5);
+    expect(report.skipped).toBe(1);
+    expect(report.percentAgreement).toBe(0.8);
+    expect(report.categories).toEqual(['A', 'B', 'C']);
+    expect(report.raters).toEqual(['List 1', 'List 2']);
+    expect(report.pairs).toHaveLength(1);
+    expect(report.pairs[0].raters).toEqual([0, 1]);
+    expect(report.pairs[0].confusionMatrix).toEqual([
+      [1, 1, 0],
+      [0, 2, 0],
+      [0, 0, 1],
+    ]);
+    expect(report.pairs[0].perCategory.A).toEqual({ precision: 1, recall: 0.5, f1: 2 / 3, support: 2 });
+    expect(report.pairs[0].perCategory.B.precision).toBeCloseTo(2 / 3);
+    expect(report.pairs[0].perCategory.B.recall).toBe(1);
+    expect(report.disagreements).toEqual([{ itemIndex: 1, values: ['A', 'B'] }]);
+  });
+
+  test('builds a confusion matrix for every pair of raters', () => {
+    const { agreementReport } = loadHelpers(importOnly);
+    const report = agreementReport([coded('A', 'A'), coded('A', 'B'), coded('C', 'B')], ['Coder 1', 'Coder 2', 'LLM']);
+
+    expect(report.raters).toEqual(['Coder 1', 'Coder 2', 'LLM']);
+    expect(report.categories).toEqual(['A', 'B', 'C']);
+    expect(report.pairs.map((pair: any) => pair.raters)).toEqual([[0, 1], [0, 2], [1, 2]]);
+    // The third rater's categories count in the pairs it is part of
+    expect(report.pairs[1].confusionMatrix).toEqual([
+      [0, 1, 1],
+      [0, 0, 0],
+      [0, 0, 0],
+    ]);
+    expect(report.pairs[2].perCategory.B).toEqual({ precision: 1, recall: 1, f1: 1, support: 1 });
+  });
+
+  test('compares label sets regardless of their order and counts a disagreement of any rater', () => {
+    const { agreementReport } = loadHelpers(importOnly);
+    const report = agreementReport([
+      coded(['b', 'a'], ['a']),
+      coded(['a', 'b'], ['a']),
+      coded(['a', 'b'], ['b']),
+    ]);
+
+    expect(report.categories).toEqual(['a', 'a, b', 'b']);
+    expect(report.percentAgreement).toBe(0.5);
+    expect(report.disagreements).toEqual([{ itemIndex: 1, values: ['a', 'a', 'b'] }]);
+  });
+
+  test('reports no agreement when no item was coded by every rater', () => {
+    const { agreementReport } = loadHelpers(importOnly);
+    const report = agreementReport([coded('A', ''), coded(undefined, 'B')]);
+    expect(report).toMatchObject({ items: 0, skipped: 2, percentAgreement: null, categories: [] });
+  });
+});
+
+describe('bootstrap intervals', () => {
+  // Share of items two raters agree on, a comparison the percentile interval can be checked against
+  const agreement = async (first: string[], second: string[]) =>
+    first.filter((label, index) => label === second[index]).length / first.length;
+  const first = ['A', 'A', 'B', 'B', 'A', 'B', 'A', 'B', 'A', 'A'];
+  const second = ['A', 'B', 'B', 'B', 'A', 'A', 'A', 'B', 'A', 'A'];
+  const settings = { resamples: 200, seed: 42, confidence: 0.9 };
+
+  test('draws the same numbers for the same seed', () => {
+    const { seededRandom } = loadHelpers(importOnly);
+    const draw = (seed: number) => {
+      const random = seededRandom(seed);
+      return Array.from({ length: 5 }, () => random());
+    };
+    expect(draw(1)).toEqual(draw(1));
+    expect(draw(1)).not.toEqual(draw(2));
+    for (const value of draw(3)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test('brackets the comparison result and can be reproduced by its seed', async () => {
+    const { bootstrapInterval } = loadHelpers(importOnly);
+    const interval = await bootstrapInterval(agreement, [first, second], settings);
+
+    expect(interval).toMatchObject({ confidence: 0.9, resamples: 200, failed: 0, seed: 42 });
+    expect(interval.lower).toBeLessThanOrEqual(0.8);
+    expect(interval.upper).toBeGreaterThanOrEqual(0.8);
+    expect(interval.lower).toBeGreaterThanOrEqual(0);
+    expect(interval.upper).toBeLessThanOrEqual(1);
+    await expect(bootstrapInterval(agreement, [first, second], settings)).resolves.toEqual(interval);
+  });
+
+  test('uses the mean of per label results and counts the resamples a comparison failed on', async () => {
+    const { bootstrapInterval } = loadHelpers(importOnly);
+    let calls = 0;
+    const perLabel = async () => {
+      calls++;
+      if (calls % 4 === 0) throw new Error('A category was not drawn');
+      return calls % 4 === 1 ? { mean: 0.5, A: 0.4, B: 0.6 } : { mean: NaN };
+    };
+
+    const interval = await bootstrapInterval(perLabel, [first, second], { ...settings, resamples: 8 });
+    expect(interval).toMatchObject({ lower: 0.5, upper: 0.5, resamples: 2, failed: 6 });
+  });
+
+  test('fails when no resample could be compared', async () => {
+    const { bootstrapInterval } = loadHelpers(importOnly);
+    await expect(bootstrapInterval(async () => 'n/a', [first, second], { ...settings, resamples: 3 }))
+      .rejects.toThrow('could not be calculated for any of the 3 resamples');
+  });
+});
+
+describe('retry policies', () => {
+  const retryOn = { timeout: true, serverError: true, emptyOutput: true, invalidJson: true };
+  const failure = (message: string, fields: Record<string, any> = {}) => Object.assign(new Error(message), fields);
+
+  test('retries server errors by the status of the response only', () => {
+    const { retryReason } = loadHelpers(importOnly);
+    expect(retryReason(retryOn, failure('Request failed', { response: { status: 503 } }))).toBe('server_error');
+    expect(retryReason(retryOn, failure('Request failed', { status: 500 }))).toBe('server_error');
+    expect(retryReason(retryOn, failure('Request failed', { response: { status: 404 } }))).toBeUndefined();
+    // Numbers in the message, like those of the input, are no status
+    expect(retryReason(retryOn, failure('Cannot code "rated 500 out of 503"'))).toBeUndefined();
+    expect(retryReason({ ...retryOn, serverError: false }, failure('Request failed', { status: 502 }))).toBeUndefined();
+  });
+
+  test('retries timeouts and unusable outputs', () => {
+    const { retryReason } = loadHelpers(importOnly);
+    expect(retryReason(retryOn, failure('connect ECONNREFUSED 127.0.0.1:1234'))).toBe('timeout');
+    expect(retryReason(retryOn, undefined, { output: '  ' })).toBe('empty_output');
+    expect(retryReason(retryOn, undefined, { output: '```json\n{"label": "A"}\n```' })).toBeUndefined();
+    expect(retryReason(retryOn, undefined, { output: '{"label": ' })).toBe('invalid_json');
+  });
+});
+
+describe('output schemas', () => {
+  const schemaFlow = (schema: Record<string, any>) => generateFlowCode(project([
+    block('import', 'import', { file: '/data/items.json' }),
+    block('code', 'transform', { actionId: 'built-in-13', config: { 'Output Schema': schema } }),
+  ], [['import', 'code']]), []);
+  const label = { type: 'object', properties: { label: { type: 'string' } }, required: ['label'], additionalProperties: false };
+
+  test('asks for strict mode only for schemas strict mode accepts', () => {
+    expect(schemaFlow(label)).toContain('"strict":true');
+    expect(schemaFlow({ type: 'object', properties: { labels: { type: 'array', items: label } }, required: ['labels'], additionalProperties: false }))
+      .toContain('"strict":true');
+    expect(schemaFlow({ ...label, additionalProperties: undefined })).not.toContain('"strict"');
+    expect(schemaFlow({ ...label, required: [] })).not.toContain('"strict"');
+    expect(schemaFlow({ type: 'object', properties: { labels: { type: 'array', items: { ...label, required: [] } } }, required: ['labels'], additionalProperties: false }))
+      .not.toContain('"strict"');
+    expect(schemaFlow({ type: 'string', enum: ['A', 'B'] })).not.toContain('"strict"');
+  });
+
+  test('only requires ajv for flows validating their outputs', () => {
+    expect(schemaFlow(label)).toContain("require('ajv/dist/2019')");
+    expect(generateFlowCode(importOnly, [])).not.toContain('ajv');
+  });
+});
+
+describe('LLM provider API key', () => {
+  const provider = {
+    name: 'OpenAI',
+    baseUrl: 'https://api.openai.com',
+    port: 443,
+    endpoint: 'v1/chat/completions',
+    modelsEndpoint: 'v1/models',
+    apiKey: 'sk-secret',
+  };
+  const llmConfig = (apiKeyHeader?: string) => ({ model: 'gpt-4o-mini', temperature: 0, maxTokens: 100, provider: { ...provider, apiKeyHeader } });
+
+  afterEach(() => {
+    delete process.env.LLM_API_KEY;
+  });
+
+  test('is read from the environment instead of being written into the code', () => {
+    expect(generateFlowCode(importOnly, [], undefined, llmConfig())).not.toContain('sk-secret');
+
+    process.env.LLM_API_KEY = 'sk-from-env';
+    expect(loadHelpers(importOnly, undefined, undefined, llmConfig()).llmConfig.headers)
+      .toEqual({ Authorization: 'Bearer sk-from-env' });
+    expect(loadHelpers(importOnly, undefined, undefined, llmConfig('x-api-key')).llmConfig.headers)
+      .toEqual({ 'x-api-key': 'sk-from-env' });
+  });
+
+  test('stops the flow when the environment does not hold it', () => {
+    expect(() => loadHelpers(importOnly, undefined, undefined, llmConfig())).toThrow('set the LLM_API_KEY environment variable');
+  });
+});
+
+describe('LLM configuration lock', () => {
+  test('never runs a call while another node has switched the configuration', async () => {
+    const { createLlmConfigLock } = loadHelpers(importOnly);
+    let current: string | undefined;
+    const applied: string[] = [];
+    const withConfig = createLlmConfigLock((config: { model: string }) => {
+      current = config.model;
+      applied.push(config.model);
+    });
+
+    // Every call reports the configuration it started and ended with
+    const flowDefault = { model: 'default' };
+    const override = { model: 'override' };
+    const call = (config: { model: string }, delayMs: number) => withConfig(config, async () => {
+      const started = current;
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      return { expected: config.model, started, ended: current };
+    });
+
+    const results = await Promise.all([
+      call(flowDefault, 20),
+      call(flowDefault, 5),
+      call(override, 5),
+      call(flowDefault, 5),
+      call(override, 10),
+    ]);
+    for (const { expected, started, ended } of results) {
+      expect(started).toBe(expected);
+      expect(ended).toBe(expected);
+    }
+    // Waiting calls take their turn in order
+    expect(applied).toEqual(['default', 'override', 'default', 'override']);
+  });
+});
+
+describe('checkpoints', () => {
+  let checkpointDir: string;
+
+  beforeEach(() => {
+    checkpointDir = fs.mkdtempSync(path.join(os.tmpdir(), 'flow-checkpoint-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(checkpointDir, { recursive: true, force: true });
+  });
+
+  const entry = (index: number, outputs: Record<string, any>) => ({
+    index,
+    results: Object.fromEntries(Object.entries(outputs).map(([nodeId, output]) => [nodeId, { output, input: 'text' }])),
+    final: { output: Object.values(outputs).pop(), input: 'text', generator: 'node' },
+  });
+
+  test('restores completed items', () => {
+    const { loadCheckpoint, saveCheckpoint } = loadHelpers(importOnly, undefined, checkpointDir);
+    saveCheckpoint('import', entry(0, { code: 'POSITIVE' }));
+    saveCheckpoint('import', entry(1, { code: 'NEGATIVE' }));
+
+    const completed = loadCheckpoint('import', ['code']);
+    expect(Array.from(completed.keys())).toEqual([0, 1]);
+    expect(completed.get(1).results.code.output).toBe('NEGATIVE');
+  });
+
+  test('does not checkpoint items a transform failed on', () => {
+    const { loadCheckpoint, saveCheckpoint } = loadHelpers(importOnly, undefined, checkpointDir);
+    saveCheckpoint('import', entry(0, { code: { error: true, errorMessage: 'Request timed out' }, upper: 'x' }));
+    saveCheckpoint('import', entry(1, { code: 'POSITIVE', upper: { error: true, errorMessage: 'failed' } }));
+
+    expect(loadCheckpoint('import', ['code', 'upper']).size).toBe(0);
+  });
+
+  test('runs items again that were checkpointed before a transform was added', () => {
+    const { loadCheckpoint, saveCheckpoint } = loadHelpers(importOnly, undefined, checkpointDir);
+    saveCheckpoint('import', entry(0, { code: 'POSITIVE' }));
+    saveCheckpoint('import', entry(1, { code: 'NEGATIVE', review: 'agreed' }));
+
+    expect(Array.from(loadCheckpoint('import', ['code', 'review']).keys())).toEqual([1]);
+  });
+
+  test('runs items again whose transform changed its code, config or model since', () => {
+    const labeled = (labels: string[]) => project([
+      block('import', 'import', { file: '/data/items.json' }),
+      block('code', 'transform', { actionId: 'built-in-13', config: { labels } }),
+    ], [['import', 'code']]);
+    const flow = labeled(['POSITIVE', 'NEGATIVE']);
+    loadHelpers(flow, undefined, checkpointDir).saveCheckpoint('import', entry(0, { code: 'POSITIVE' }));
+
+    expect(loadHelpers(flow, undefined, checkpointDir).loadCheckpoint('import', ['code']).size).toBe(1);
+    expect(loadHelpers(labeled(['POSITIVE']), undefined, checkpointDir).loadCheckpoint('import', ['code']).size).toBe(0);
+    expect(loadHelpers(flow, undefined, checkpointDir, { model: 'other-model', temperature: 0.7, maxTokens: -1 }).loadCheckpoint('import', ['code']).size).toBe(0);
+  });
+
+  test('skips a line left incomplete by a crash', () => {
+    const { loadCheckpoint, saveCheckpoint } = loadHelpers(importOnly, undefined, checkpointDir);
+    saveCheckpoint('import', entry(0, { code: 'POSITIVE' }));
+    fs.appendFileSync(path.join(checkpointDir, 'import.jsonl'), '{"index":1,"res');
+
+    expect(Array.from(loadCheckpoint('import', ['code']).keys())).toEqual([0]);
+  });
+});
@@ -1,4 +1,4 @@
-import { Project, Action, Block } from '../types/Project';
+import { Project, Action, Block, LLMProvider, LLMOverrides, RetryPolicy, BootstrapSettings, SamplingSettings } from '../types/Project';
 import { builtInActions } from '../actions/builtInActions';
 import { parse } from 'csv-parse/sync';
 
@@ -6,9 +6,92 @@ interface LLMConfig {
   model: string;
   temperature: number;
   maxTokens: number;
+  provider?: LLMProvider;  // Server the flow talks to, LM Studio on its default port when not set
 }
 
-export function generateFlowCode(project: Project, globalActions: Action[], maxItems?: number, llmConfig?: LLMConfig): string {
+// Environment variable the generated code reads the provider's API key from, the app and the CLI set it
+// (LLM_API_KEY_ENV of scripts/flow-runner.js). The key itself is never written into the code.
+const LLM_API_KEY_ENV = 'LLM_API_KEY';
+
+// Function to get the code of the headers a provider's API key is sent in
+function providerHeadersCode(provider?: LLMProvider): string | undefined {
+  if (!provider?.apiKey) return undefined;
+  const headerName = provider.apiKeyHeader || 'Authorization';
+  const value = headerName.toLowerCase() === 'authorization' ? '`Bearer ${llmApiKey}`' : 'llmApiKey';
+  return `{ ${JSON.stringify(headerName)}: ${value} }`;
+}
+
+// Function to get the JSON Schema the outputs of an LLM node must conform to, invalid schemas are ignored
+function nodeOutputSchema(block: Block): Record<string, any> | undefined {
+  const schema = block.config?.['Output Schema'];
+  return schema && typeof schema === 'object' && !Array.isArray(schema) ? schema : undefined;
+}
+
+// Function to check whether OpenAI's strict mode accepts a schema: every object schema allows no other
+// properties and requires all of its own. Other schemas are sent without strict, as a hint to the server.
+function isStrictSchema(schema: any): boolean {
+  if (!schema || typeof schema !== 'object') return true;
+  if (Array.isArray(schema)) return schema.every(isStrictSchema);
+  const properties = schema.properties || {};
+  const isObject = schema.type === 'object' || (Array.isArray(schema.type) && schema.type.includes('object')) || schema.properties;
+  if (isObject) {
+    const required = Array.isArray(schema.required) ? schema.required : [];
+    if (schema.additionalProperties !== false || Object.keys(properties).some(key => !required.includes(key))) return false;
+  }
+  return Object.values(properties).every(isStrictSchema)
+    && [schema.items, schema.anyOf, schema.allOf, schema.oneOf].every(isStrictSchema)
+    && Object.values({ ...schema.$defs, ...schema.definitions }).every(isStrictSchema);
+}
+
+// Function to get the model and settings a node changes relative to the flow's LLM configuration
+function nodeLlmOverrides(block: Block): { model?: string; settings: Record<string, any> } | undefined {
+  const overrides: LLMOverrides = block.config?.llmOverrides || {};
+
+  const settings: Record<string, any> = {};
+  if (typeof overrides.temperature === 'number') settings.temperature = overrides.temperature;
+  if (typeof overrides.maxTokens === 'number') settings.max_tokens = overrides.maxTokens;
+  if (typeof overrides.seed === 'number') settings.seed = overrides.seed;
+
+  // Servers following the OpenAI API only generate responses that match the schema, strict mode needs an object at its root
+  const outputSchema = nodeOutputSchema(block);
+  if (outputSchema && block.config?.['Constrain Output'] !== false) {
+    const strict = outputSchema.type === 'object' && isStrictSchema(outputSchema);
+    settings.response_format = {
+      type: 'json_schema',
+      json_schema: { name: 'output', ...(strict && { strict: true }), schema: outputSchema }
+    };
+  }
+
+  const model = overrides.model?.trim() || undefined;
+  if (!model && Object.keys(settings).length === 0) return undefined;
+  return { model, settings };
+}
+
+// Function to get how an import node reads its file, undefined when it reads it with the defaults
+export function importOptions(block: Block): { sheet?: string; csv?: Block['csvOptions'] } | undefined {
+  const options = {
+    ...(block.sheet && { sheet: block.sheet }),
+    ...(block.csvOptions && Object.keys(block.csvOptions).length > 0 && { csv: block.csvOptions }),
+  };
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+// Function to describe the items a run processes, as shown in the generated code and its log
+export function describeSampling(sampling?: SamplingSettings): string {
+  if (!sampling) return 'all items';
+  switch (sampling.mode) {
+    case 'random':
+      return `a random sample of ${sampling.count} items (seed ${sampling.seed})`;
+    case 'stratified':
+      return `a sample of ${sampling.count} items stratified by ${JSON.stringify(sampling.attribute || '')} (seed ${sampling.seed})`;
+    case 'range':
+      return `items ${sampling.ranges || ''}`.trim();
+    default:
+      return `the first ${sampling.count} items`;
+  }
+}
+
+export function generateFlowCode(project: Project, globalActions: Action[], sampling?: SamplingSettings, llmConfig?: LLMConfig, checkpointDir?: string, concurrency: number = 1, cacheDir?: string): string {
   if (!project) return '';
 
   // Create a map of node IDs to their code and actions
@@ -97,6 +180,9 @@ export function generateFlowCode(project: Project, globalActions: Action[], maxI
   console.log('Transform blocks:', project.blocks.filter(b => b.type === 'transform').map(b => ({ id: b.id, actionId: b.actionId })));
   console.log('Node code map:', Array.from(nodeCodeMap.entries()).map(([id, info]) => ({ id, actionName: info.action.name })));
 
+  // Outputs are only validated, and ajv only required, when a node has an output schema
+  const hasOutputSchemas = project.blocks.some(block => block.type === 'transform' && nodeOutputSchema(block));
+
   // Generate the execution code
   const code = `// Generated execution code for ${project.name}
 // This code represents the flow execution logic using Aitomics
@@ -104,19 +190,81 @@ export function generateFlowCode(project: Project, globalActions: Action[], maxI
 // Import required dependencies
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
+
+// Parsers of the files import nodes read, shared with the app. The runners of the app and the
+// command line copy input-parsers.js from its scripts next to this code, exported code needs it as well.
+let inputParsers;
+try {
+  inputParsers = require('./input-parsers');
+} catch (error) {
+  console.error('[FLOW_ERROR] Failed to import the input parsers:', error.message);
+  throw new Error('Failed to import input-parsers.js. Please copy it from the scripts of the app next to this code.');
+}
 
-// Ensure csv-parse is available
-let csvParse;
+// Ensure p-limit is available
+let pLimit;
 try {
-  csvParse = require('csv-parse/sync');
+  pLimit = require('p-limit');
 } catch (error) {
-  console.error('[FLOW_ERROR] Failed to import csv-parse:', error.message);
-  throw new Error('Failed to import csv-parse package. Please ensure it is installed.');
+  console.error('[FLOW_ERROR] Failed to import p-limit:', error.message);
+  throw new Error('Failed to import p-limit package. Please ensure it is installed.');
 }
 
-// UI Logging toggle
+${hasOutputSchemas ? `// Ensure ajv is available to validate the outputs of nodes with an output schema
+let Ajv;
+let addFormats;
+try {
+  Ajv = require('ajv/dist/2019');
+  addFormats = require('ajv-formats');
+} catch (error) {
+  console.error('[FLOW_ERROR] Failed to import ajv:', error.message);
+  throw new Error('Failed to import ajv and ajv-formats packages. Please ensure they are installed.');
+}
+
+` : ''}// UI Logging toggle
 const UI_LOGGING = true;
 
+// Number of items of an import node processed in parallel
+const CONCURRENCY = ${Math.max(1, Math.floor(concurrency))};
+
+// Function to hold the flow while it is paused. The runners of the app and the command line define
+// waitWhilePaused around this code, exported code run on its own is never paused.
+const pausePoint = typeof waitWhilePaused === 'function' ? waitWhilePaused : () => Promise.resolve();
+
+// Function to create consoles for parallel items that write their output in item order.
+// The earliest unfinished item writes directly, later items are buffered until it completes.
+function createOrderedOutput() {
+  const buffered = new Map();
+  const completed = new Set();
+  let current = 0;
+
+  return {
+    console(index) {
+      const write = (method) => (...args) => {
+        if (index === current) {
+          console[method](...args);
+          return;
+        }
+        if (!buffered.has(index)) buffered.set(index, []);
+        buffered.get(index).push({ method, args });
+      };
+      return { log: write('log'), warn: write('warn'), error: write('error') };
+    },
+    complete(index) {
+      completed.add(index);
+      while (completed.has(current)) {
+        completed.delete(current);
+        current++;
+        for (const { method, args } of buffered.get(current) || []) {
+          console[method](...args);
+        }
+        buffered.delete(current);
+      }
+    }
+  };
+}
+
 // Helper function for logging
 function safeStringify(obj) {
   try {
@@ -126,12 +274,19 @@ function safeStringify(obj) {
   }
 }
 
-// LLM Configuration
+${providerHeadersCode(llmConfig?.provider) ? `// API key of the LLM server, set ${LLM_API_KEY_ENV} when running this code yourself
+const llmApiKey = process.env.${LLM_API_KEY_ENV};
+if (!llmApiKey) {
+  throw new Error('The LLM server needs an API key, set the ${LLM_API_KEY_ENV} environment variable to it');
+}
+
+` : ''}// LLM Configuration
 const llmConfig = {
   model: ${JSON.stringify(llmConfig?.model || "llama-3.2-3b-instruct")},
-  path: "http://127.0.0.1",
-  port: 1234,
-  endpoint: "v1/chat/completions",
+  path: ${JSON.stringify((llmConfig?.provider?.baseUrl || "http://127.0.0.1").replace(/\/+$/, ''))},
+  port: ${llmConfig?.provider?.port || 1234},
+  endpoint: ${JSON.stringify((llmConfig?.provider?.endpoint || "v1/chat/completions").replace(/^\/+/, ''))},${providerHeadersCode(llmConfig?.provider) ? `
+  headers: ${providerHeadersCode(llmConfig?.provider)},` : ''}
   settings: {
     temperature: ${llmConfig?.temperature || 0.7},
     max_tokens: ${llmConfig?.maxTokens || -1},
@@ -139,11 +294,467 @@ const llmConfig = {
   }
 };
 
+// LLM configuration of nodes overriding the model or sampling settings of the flow
+const nodeLlmConfigs = {${project.blocks
+  .filter(block => block.type === 'transform')
+  .map(block => {
+    const overrides = nodeLlmOverrides(block);
+    if (!overrides) return '';
+    return `
+  ${JSON.stringify(block.id)}: {
+    ...llmConfig,${overrides.model ? `
+    model: ${JSON.stringify(overrides.model)},` : ''}
+    settings: { ...llmConfig.settings, ...${JSON.stringify(overrides.settings)} }
+  },`;
+  })
+  .join('')}
+};
+
+// Function to get the LLM configuration a node runs with
+function llmConfigFor(nodeId) {
+  return nodeLlmConfigs[nodeId] || llmConfig;
+}
+
+// Function to create a lock around the single LLM configuration aitomics holds. Calls of nodes with the same
+// configuration run in parallel, a node with another one waits until they are done before switching to it.
+function createLlmConfigLock(applyConfig) {
+  let active = null;
+  let running = 0;
+  const waiting = [];
+  return async (config, run) => {
+    // Join the running calls only when they use this configuration and no other node is waiting
+    while (!(active === null || (active === config && waiting.length === 0))) {
+      await new Promise(resolve => waiting.push(resolve));
+    }
+    if (active === null) {
+      applyConfig(config);
+      active = config;
+    }
+    running++;
+    try {
+      return await run();
+    } finally {
+      running--;
+      if (running === 0) {
+        active = null;
+        waiting.splice(0).forEach(resolve => resolve());
+      }
+    }
+  };
+}
+
+// Retry policies of transform nodes, nodes without one run their caller once
+const retryPolicies = ${JSON.stringify(project.blocks
+  .filter(block => block.type === 'transform' && block.retryPolicy && block.retryPolicy.maxAttempts > 1)
+  .reduce((acc, block) => {
+    acc[block.id] = block.retryPolicy!;
+    return acc;
+  }, {} as Record<string, RetryPolicy>), null, 2)};
+
+const retryReasonMessages = {
+  timeout: 'Request timed out',
+  server_error: 'Server error',
+  empty_output: 'Empty output',
+  invalid_json: 'Output is not valid JSON',
+  schema_mismatch: 'Output does not match the schema'
+};
+
+// JSON Schemas the outputs of LLM nodes are validated against
+const outputSchemas = ${JSON.stringify(project.blocks
+  .filter(block => block.type === 'transform' && nodeOutputSchema(block))
+  .reduce((acc, block) => {
+    acc[block.id] = nodeOutputSchema(block)!;
+    return acc;
+  }, {} as Record<string, Record<string, any>>), null, 2)};
+
+// Attempts of a node with an output schema and no retry policy
+const SCHEMA_ATTEMPTS = 3;
+
+// Function to read an output as JSON, a code fence around it is ignored
+function parseJsonOutput(output) {
+  if (typeof output !== 'string') return { value: output };
+  const text = output.trim().replace(/^\`\`\`(?:json)?\\s*/i, '').replace(/\\s*\`\`\`$/, '');
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: 'not valid JSON' };
+  }
+}
+
+// Validators of the output schemas, compiled before the flow runs so an invalid schema stops it right away.
+// Schemas follow JSON Schema 2019-09, which also reads draft-07 schemas.
+const outputValidators = {};${hasOutputSchemas ? `
+const schemaValidator = new Ajv({ strictTypes: false, strictTuples: false });
+addFormats(schemaValidator);
+${project.blocks
+  .filter(block => block.type === 'transform' && nodeOutputSchema(block))
+  .map(block => `try {
+  outputValidators[${JSON.stringify(block.id)}] = schemaValidator.compile(outputSchemas[${JSON.stringify(block.id)}]);
+} catch (error) {
+  throw new Error(${JSON.stringify(`The output schema of ${block.name || block.id} is invalid: `)} + error.message);
+}`)
+  .join('\n')}` : ''}
+
+// Function to validate an output against the schema of its node, returns why it does not conform
+function outputSchemaError(nodeId, output) {
+  const parsed = parseJsonOutput(output);
+  if (parsed.error) return 'Output is ' + parsed.error;
+  const validate = outputValidators[nodeId];
+  return validate(parsed.value) ? undefined : schemaValidator.errorsText(validate.errors, { dataVar: '$' });
+}
+
+// Function to get why an attempt should be retried under a policy, undefined when its result can be used
+function retryReason(retryOn, error, response) {
+  if (error) {
+    const message = String(error.message || error);
+    const status = error.status || error.statusCode || (error.response && error.response.status);
+    if (retryOn.timeout && /time[d]? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up/i.test(message)) return 'timeout';
+    // Only the status of the response counts, error messages may quote numbers like 500 from the input
+    if (retryOn.serverError && status >= 500 && status < 600) return 'server_error';
+    return undefined;
+  }
+
+  const output = response.output;
+  if (retryOn.emptyOutput && (output === undefined || output === null || (typeof output === 'string' && !output.trim()))) {
+    return 'empty_output';
+  }
+  if (retryOn.invalidJson && parseJsonOutput(output).error) {
+    return 'invalid_json';
+  }
+  return undefined;
+}
+
+// Directory where completed items are checkpointed, null when checkpointing is disabled
+const CHECKPOINT_DIR = ${JSON.stringify(checkpointDir || null)};
+
+// Function to get the checkpoint file of an import node
+function checkpointFile(nodeId) {
+  return path.join(CHECKPOINT_DIR, String(nodeId).replace(/[^a-zA-Z0-9_-]/g, '_') + '.jsonl');
+}
+
+// Code and config of each transform, checkpointed results of a transform whose code, config or
+// LLM configuration changed since are not restored
+const transformDefinitions = {${project.blocks
+  .filter(block => block.type === 'transform' && nodeCodeMap.has(block.id))
+  .map(block => `
+  ${JSON.stringify(block.id)}: ${JSON.stringify(JSON.stringify({ code: nodeCodeMap.get(block.id)!.code, config: block.config || {} }))},`)
+  .join('')}
+};
+
+// Function to get the signature of a transform as the flow runs it now
+function transformSignature(nodeId) {
+  const config = llmConfigFor(nodeId);
+  return crypto.createHash('sha256')
+    .update(JSON.stringify([
+      transformDefinitions[nodeId] || null,
+      config.path + ':' + config.port,
+      config.model,
+      config.settings
+    ]))
+    .digest('hex');
+}
+
+// Function to load the items an earlier attempt of this run completed for an import node.
+// Items checkpointed before one of the node's transforms was added or changed are run again.
+function loadCheckpoint(nodeId, transformIds = []) {
+  const completed = new Map();
+  if (!CHECKPOINT_DIR || !fs.existsSync(checkpointFile(nodeId))) return completed;
+
+  const signatures = Object.fromEntries(transformIds.map(transformId => [transformId, transformSignature(transformId)]));
+  let changed = 0;
+  const lines = fs.readFileSync(checkpointFile(nodeId), 'utf-8').split('\\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (!transformIds.every(transformId => entry.results && entry.results[transformId])) continue;
+      if (transformIds.every(transformId => entry.results[transformId].signature === signatures[transformId])) {
+        completed.set(entry.index, entry);
+      } else {
+        changed++;
+      }
+    } catch (error) {
+      // A crash can leave the last line incomplete, that item is simply run again
+    }
+  }
+  if (changed > 0) {
+    console.log('[FLOW] Running ' + changed + ' checkpointed items again, a transform changed since they completed');
+  }
+  return completed;
+}
+
+// Function to persist a completed item so it is not processed again when the run is resumed,
+// items a step failed on are not persisted so resuming runs them again
+function saveCheckpoint(nodeId, entry) {
+  if (!CHECKPOINT_DIR) return;
+  const failed = (output) => Boolean(output && output.error);
+  if (failed(entry.final.output) || Object.values(entry.results).some(result => failed(result.output))) return;
+  const results = Object.fromEntries(Object.entries(entry.results)
+    .map(([transformId, result]) => [transformId, { ...result, signature: transformSignature(transformId) }]));
+  try {
+    fs.mkdirSync(CHECKPOINT_DIR, { recursive: true });
+    fs.appendFileSync(checkpointFile(nodeId), JSON.stringify({ ...entry, results }) + '\\n', 'utf-8');
+  } catch (error) {
+    console.warn('[FLOW_WARN] Failed to checkpoint item:', safeStringify({
+      nodeId,
+      index: entry.index,
+      error: error.message
+    }));
+  }
+}
+
+// Directory where LLM responses are cached, null when the cache is disabled for this run
+const CACHE_DIR = ${JSON.stringify(cacheDir || null)};
+let cacheHits = 0;
+
+// Function to get the cache file of a caller's response to an input, unchanged prompts and settings map to the same file
+function responseCacheFile(signature, input, config) {
+  const key = crypto.createHash('sha256')
+    .update(JSON.stringify([
+      signature,
+      config.path + ':' + config.port,
+      config.model,
+      config.settings.temperature,
+      config.settings.max_tokens,
+      ...(config.settings.seed !== undefined ? [config.settings.seed] : []),
+      input
+    ]))
+    .digest('hex');
+  return path.join(CACHE_DIR, key + '.json');
+}
+
+// Function to load a cached response, returns undefined when there is none
+function loadCachedResponse(signature, input, config) {
+  try {
+    const file = responseCacheFile(signature, input, config);
+    if (!fs.existsSync(file)) return undefined;
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Function to cache a response for later runs
+function saveCachedResponse(signature, input, config, output) {
+  try {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    fs.writeFileSync(responseCacheFile(signature, input, config), JSON.stringify({ output }), 'utf-8');
+  } catch (error) {
+    console.warn('[FLOW_WARN] Failed to cache response:', safeStringify({ error: error.message }));
+  }
+}
+
+// Function to read the output of a compared item as a category, undefined when the item failed or is empty
+function comparisonCategory(response) {
+  const output = response && response.output;
+  if (output === undefined || output === null || output.error) return undefined;
+  if (Array.isArray(output)) return output.map(label => String(label).trim()).sort().join(', ');
+  const category = typeof output === 'object' ? JSON.stringify(output) : String(output).trim();
+  return category === '' ? undefined : category;
+}
+
+// Function to build the confusion matrix of two raters and the per category scores of the second against the first
+function raterPairAgreement(coded, categories, first, second) {
+  const confusionMatrix = categories.map(() => categories.map(() => 0));
+  for (const { values } of coded) {
+    confusionMatrix[categories.indexOf(values[first])][categories.indexOf(values[second])]++;
+  }
+
+  const perCategory = {};
+  categories.forEach((category, index) => {
+    const correct = confusionMatrix[index][index];
+    const support = confusionMatrix[index].reduce((sum, count) => sum + count, 0);
+    const predicted = confusionMatrix.reduce((sum, row) => sum + row[index], 0);
+    const precision = predicted > 0 ? correct / predicted : null;
+    const recall = support > 0 ? correct / support : null;
+    const f1 = precision !== null && recall !== null && precision + recall > 0 ? 2 * precision * recall / (precision + recall) : null;
+    perCategory[category] = { precision, recall, f1, support };
+  });
+
+  return { raters: [first, second], confusionMatrix, perCategory };
+}
+
+// Function to report how the raters of a comparison agree on the items all of them coded,
+// with a confusion matrix and per category scores for every pair of raters
+function agreementReport(lists, raters = lists.map((list, index) => 'List ' + (index + 1))) {
+  const itemCount = Math.max(...lists.map(list => list.length));
+  const coded = [];
+  for (let i = 0; i < itemCount; i++) {
+    const values = lists.map(list => comparisonCategory(list[i]));
+    if (values.every(value => value !== undefined)) coded.push({ itemIndex: i, values });
+  }
+
+  const disagreements = coded.filter(item => item.values.some(value => value !== item.values[0]));
+  const categories = Array.from(new Set(coded.flatMap(item => item.values))).sort();
+  const pairs = [];
+  for (let first = 0; first < lists.length; first++) {
+    for (let second = first + 1; second < lists.length; second++) {
+      pairs.push(raterPairAgreement(coded, categories, first, second));
+    }
+  }
+
+  return {
+    items: coded.length,
+    skipped: itemCount - coded.length,
+    percentAgreement: coded.length > 0 ? (coded.length - disagreements.length) / coded.length : null,
+    raters,
+    categories,
+    pairs,
+    disagreements
+  };
+}
+
+// Bootstrap settings of comparison nodes, nodes without them only report their result
+const bootstrapSettings = ${JSON.stringify(project.blocks
+  .filter(block => block.type === 'comparison' && block.bootstrap && block.bootstrap.resamples > 0)
+  .reduce((acc, block) => {
+    acc[block.id] = block.bootstrap!;
+    return acc;
+  }, {} as Record<string, BootstrapSettings>), null, 2)};
+
+// Function to create a seeded random number generator (mulberry32) so intervals can be reproduced
+function seededRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Function to read the value a comparison result is bootstrapped on, the mean of per label results
+function bootstrapEstimate(result) {
+  const value = result && typeof result === 'object' ? result.mean : result;
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// Function to estimate a percentile confidence interval of a comparison by resampling its items with replacement
+async function bootstrapInterval(compare, lists, settings) {
+  const random = seededRandom(settings.seed);
+  const itemCount = Math.min(...lists.map(list => list.length));
+  const estimates = [];
+  let failed = 0;
+  for (let resample = 0; resample < settings.resamples; resample++) {
+    const indices = Array.from({ length: itemCount }, () => Math.floor(random() * itemCount));
+    try {
+      const estimate = bootstrapEstimate(await compare(...lists.map(list => indices.map(index => list[index]))));
+      if (estimate === undefined) failed++;
+      else estimates.push(estimate);
+    } catch (error) {
+      failed++;
+    }
+  }
+  if (estimates.length === 0) {
+    throw new Error('The comparison could not be calculated for any of the ' + settings.resamples + ' resamples');
+  }
+
+  // Percentiles interpolated between the sorted estimates
+  estimates.sort((a, b) => a - b);
+  const percentile = (share) => {
+    const position = share * (estimates.length - 1);
+    const below = Math.floor(position);
+    const above = Math.min(below + 1, estimates.length - 1);
+    return estimates[below] + (estimates[above] - estimates[below]) * (position - below);
+  };
+  const tail = (1 - settings.confidence) / 2;
+  return {
+    lower: percentile(tail),
+    upper: percentile(1 - tail),
+    confidence: settings.confidence,
+    resamples: estimates.length,
+    failed,
+    seed: settings.seed
+  };
+}
+
+// Items of every import node the run processes, null to process all of them
+const SAMPLING = ${JSON.stringify(sampling || null)};
+
+// Function to shuffle item indices with a seeded random number generator (Fisher-Yates)
+function shuffledIndices(indices, random) {
+  const shuffled = [...indices];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Function to read the stratum of an item, items without the attribute form a stratum of their own
+function stratumOf(item, attribute) {
+  let value = item.output;
+  for (const key of String(attribute || '').split('.').filter(Boolean)) {
+    value = value !== null && typeof value === 'object' ? value[key] : undefined;
+  }
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Function to parse item ranges such as "1-50, 101-150" into zero-based indices, item numbers past the end are ignored
+function rangeIndices(ranges, itemCount) {
+  const indices = new Set();
+  for (const part of String(ranges || '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = part.match(/^(\\d+)\\s*(?:-\\s*(\\d+))?$/);
+    if (!match) throw new Error('Invalid item range: ' + part);
+    const end = match[2] !== undefined ? Number(match[2]) : Number(match[1]);
+    for (let number = Math.max(1, Number(match[1])); number <= Math.min(end, itemCount); number++) {
+      indices.add(number - 1);
+    }
+  }
+  return Array.from(indices);
+}
+
+// Function to pick the indices of the items of an import node the run processes, sampled items keep the order of the file
+function sampleIndices(items, nodeName) {
+  if (!SAMPLING) return Array.from(items.keys());
+  const count = Math.max(0, Math.min(SAMPLING.count, items.length));
+  let indices;
+  switch (SAMPLING.mode) {
+    case 'random':
+      indices = shuffledIndices(items.keys(), seededRandom(SAMPLING.seed)).slice(0, count);
+      break;
+    case 'stratified': {
+      const strata = new Map();
+      items.forEach((item, index) => {
+        const stratum = stratumOf(item, SAMPLING.attribute);
+        if (!strata.has(stratum)) strata.set(stratum, []);
+        strata.get(stratum).push(index);
+      });
+
+      // Every stratum gets its share of the sample, the items left over go to the largest remainders
+      const groups = Array.from(strata.entries()).map(([stratum, members]) => {
+        const share = members.length * count / items.length;
+        return { stratum, members, share, size: Math.floor(share) };
+      });
+      const leftOver = count - groups.reduce((sum, group) => sum + group.size, 0);
+      [...groups]
+        .sort((a, b) => (b.share - b.size) - (a.share - a.size))
+        .slice(0, leftOver)
+        .forEach(group => { group.size++; });
+
+      const random = seededRandom(SAMPLING.seed);
+      indices = groups.flatMap(group => shuffledIndices(group.members, random).slice(0, group.size));
+      console.log('[FLOW] Strata of ' + safeStringify(nodeName) + ': ' + groups
+        .map(group => (group.stratum === '' ? '(none)' : group.stratum) + ' ' + group.size + '/' + group.members.length)
+        .join(', '));
+      break;
+    }
+    case 'range':
+      indices = rangeIndices(SAMPLING.ranges, items.length);
+      break;
+    default:
+      return Array.from(items.keys()).slice(0, count);
+  }
+  return indices.sort((a, b) => a - b);
+}
+
 // Cache for file contents
 const fileCache = new Map();
 
-// Function to parse file content based on file type
-async function parseFileContent(filePath, nodeName) {
+// Function to parse file content based on file type, options hold the sheet of spreadsheets and the CSV dialect
+async function parseFileContent(filePath, nodeName, options = {}) {
   // Log UI file loading regardless of cache status
   if (UI_LOGGING) {
     console.log('[FLOW_UI_LOG] ' + JSON.stringify({
@@ -153,36 +764,15 @@ async function parseFileContent(filePath, nodeName) {
     }));
   }
 
-  // Check cache first
-  if (fileCache.has(filePath)) {
+  // Check cache first, import nodes reading another sheet of the same file get their own entry
+  const cacheKey = JSON.stringify([filePath, options]);
+  if (fileCache.has(cacheKey)) {
     console.log('[FLOW] Using cached content for:', safeStringify(filePath));
-    return fileCache.get(filePath);
+    return fileCache.get(cacheKey);
   }
 
   try {
-    const fileExtension = filePath.split('.').pop()?.toLowerCase() || '';
-    let items;
-
-    switch (fileExtension) {
-      case 'json':
-        const jsonContent = fs.readFileSync(filePath, 'utf-8');
-        const jsonData = JSON.parse(jsonContent);
-        items = Array.isArray(jsonData) ? jsonData : [jsonData];
-        break;
-        
-      case 'csv':
-        const csvContent = fs.readFileSync(filePath, 'utf-8');
-        items = csvParse.parse(csvContent, {
-          columns: true,
-          skip_empty_lines: true
-        });
-        break;
-        
-      default:
-        // For other formats, treat as single item
-        const content = fs.readFileSync(filePath, 'utf-8');
-        items = [content];
-    }
+    const items = await inputParsers.parseInputFile(filePath, options);
 
     // Import aitomics module if not already imported
     if (!global.aitomics) {
@@ -195,7 +785,7 @@ async function parseFileContent(filePath, nodeName) {
     
     // Cache the results
     console.log('[FLOW] Caching ' + responses.length + ' items from ' + safeStringify(filePath));
-    fileCache.set(filePath, responses);
+    fileCache.set(cacheKey, responses);
     
     return responses;
   } catch (error) {
@@ -223,10 +813,12 @@ async function executeFlow() {
 
   // Set the LLM configuration
   setConfigFromObject(llmConfig);
+  const withLlmConfig = createLlmConfigLock(setConfigFromObject);
 
   // Set up all transform and import nodes as aitomics callers
   // Each node that has wrapInAitomics enabled will be wrapped in a $ function
   const callers = {};
+  const callerSignatures = {};  // Code and config of callers whose responses are cached
   const comparisonCallers = {};
   const exportCallers = {};
   
@@ -253,8 +845,8 @@ async function executeFlow() {
         return '';
       }
       
-      // Create config object from node config
-      const normalizedConfig = Object.entries(block.config || {}).reduce((acc, [key, value]) => {
+      // Create config object from node config, LLM overrides are applied through the node's LLM configuration instead
+      const normalizedConfig = Object.entries(block.config || {}).filter(([key]) => key !== 'llmOverrides').reduce((acc, [key, value]) => {
         // Only normalize the config keys, not actionName or other properties
         const normalizedKey = key.toLowerCase().replace(/\s+/g, '_');
         acc[normalizedKey] = value;
@@ -287,8 +879,13 @@ async function executeFlow() {
           .filter(line => line.length > 0)
           .join(' ');
 
+        // Callers created with $(...) prompt the LLM, their responses are cached
+        const cacheSignature = /\$\(/.test(formattedCode)
+          ? `\n  callerSignatures['${block.id}'] = ${JSON.stringify(JSON.stringify({ code: formattedCode, config: configObject }))};`
+          : '';
+
         return `  // Set up caller for ${block.type} node: ${block.name || block.id}
-  callers['${block.id}'] = (${formattedCode})(${configObject});
+  callers['${block.id}'] = (${formattedCode})(${configObject});${cacheSignature}
 
 `;
       }
@@ -320,8 +917,9 @@ async function executeFlow() {
       return `  // Set up caller for ${block.type} node: ${block.name || block.id}
   callers['${block.id}'] = $((input) => {
     const config = ${configObject};
+    const node = ${JSON.stringify({ id: block.id, name: block.name || block.id })};
     const fn = ${formattedCode};
-    return fn(input, config);
+    return fn(input, config, node);
   }, "${block.name || block.id}: ${nodeInfo.action.name}");
 
 `;
@@ -372,7 +970,9 @@ async function executeFlow() {
   comparisonCallers['${block.id}'] = (function() {
     const config = ${configObject};
     const fn = ${formattedCode};
-    return (list1, list2) => fn(list1, list2, config);
+    ${nodeInfo.action.multiRater
+      ? 'return (...lists) => fn(lists, config);'
+      : 'return (list1, list2) => fn(list1, list2, config);'}
   })();
 `;
     }).filter(Boolean).join('\n');
@@ -422,7 +1022,7 @@ async function executeFlow() {
   exportCallers['${block.id}'] = (function() {
     const config = ${configObject};
     const fn = ${formattedCode};
-    return (data) => fn(data, config);
+    return (data, report) => fn(data, config, report);
   })();
 `;
     }).filter(Boolean).join('\n');
@@ -440,38 +1040,143 @@ async function executeFlow() {
       const filePath = block.file as string;
       return `  // Process import node: ${block.name || block.id}
   {
-    const items = await parseFileContent('${filePath}', '${block.name || block.id}');
+    const items = await parseFileContent('${filePath}', '${block.name || block.id}'${importOptions(block) ? `, ${JSON.stringify(importOptions(block))}` : ''});
     importResults.set('${block.id}', items);
   }`;
     }).join('\n\n');
   })()}
 
-  // Helper function to run a caller with error handling
-  async function runCaller(callerId, input, nodeName) {
+  // Helper function to run a caller with error handling, attempts the node's retry policy rejects are run again
+  async function runCaller(callerId, input, nodeName, itemIndex, console = globalThis.console) {
     const caller = callers[callerId];
     if (!caller) {
       console.warn('[FLOW_ERROR] No caller found for node:', nodeName);
       return input;  // Return input unchanged if no caller found
     }
-    try {
-      return await caller.run(input);
-    } catch (error) {
-      console.error('[FLOW_ERROR] Error running node:', {
-        node: nodeName,
-        error: error.message
-      });
-      // Instead of throwing, return a special error response
+
+    // Reuse the response of an earlier run with the same prompt, settings and input
+    const config = llmConfigFor(callerId);
+    const signature = CACHE_DIR ? callerSignatures[callerId] : undefined;
+    if (signature) {
+      const cached = loadCachedResponse(signature, input.output, config);
+      if (cached) {
+        cacheHits++;
+        return AitomicsResponse.create(cached.output, input.output, nodeName);
+      }
+    }
+
+    const policy = retryPolicies[callerId];
+    const maxAttempts = policy ? policy.maxAttempts : (outputSchemas[callerId] ? SCHEMA_ATTEMPTS : 1);
+    for (let attempt = 1; ; attempt++) {
+      let response;
+      let error;
+      try {
+        // Nodes overriding the LLM configuration switch to their own, parallel items never send a request with another node's
+        if (callerSignatures[callerId] && Object.keys(nodeLlmConfigs).length > 0) {
+          response = await withLlmConfig(config, () => caller.run(input));
+        } else {
+          response = await caller.run(input);
+        }
+      } catch (e) {
+        error = e;
+      }
+
+      let reason = policy ? retryReason(policy.retryOn, error, response) : undefined;
+
+      // Outputs not conforming to the node's schema are requested again. The caller sends the same prompt again,
+      // so this only helps when the server samples its responses (a temperature above 0 and no seed)
+      let schemaError;
+      if (!reason && !error && outputSchemas[callerId]) {
+        schemaError = outputSchemaError(callerId, response.output);
+        if (schemaError) reason = 'schema_mismatch';
+      }
+
+      if (reason) {
+        const willRetry = attempt < maxAttempts;
+        const delayMs = willRetry && policy ? Math.round(policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1)) : 0;
+        if (UI_LOGGING) {
+          console.log('[FLOW_UI_LOG] ' + JSON.stringify({
+            type: 'retry',
+            nodeId: callerId,
+            nodeName,
+            itemIndex,
+            attempt,
+            maxAttempts,
+            retryReason: reason,
+            retryMessage: error ? error.message : schemaError,
+            retryDelayMs: willRetry ? delayMs : undefined
+          }));
+        }
+        if (willRetry) {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          continue;
+        }
+        if (!error) {
+          error = new Error(retryReasonMessages[reason] + ' after ' + attempt + ' attempts' + (schemaError ? ': ' + schemaError : ''));
+        }
+      }
+
+      if (error) {
+        console.error('[FLOW_ERROR] Error running node:', {
+          node: nodeName,
+          error: error.message
+        });
+        // Instead of throwing, return a special error response
+        return AitomicsResponse.create({
+          error: true,
+          errorMessage: error.message,
+          originalInput: input.output
+        }, input.output, nodeName);
+      }
+
+      if (signature && !response.error) {
+        saveCachedResponse(signature, input.output, config, response.output);
+      }
+      return response;
+    }
+  }
+
+  // Function to turn the list a splitting node outputs into chunks that keep the index of their parent item
+  function toChunks(response, itemIndex, nodeName) {
+    if (response.output && response.output.error) return response;
+    if (!Array.isArray(response.output)) {
       return AitomicsResponse.create({
         error: true,
-        errorMessage: error.message,
-        originalInput: input.output
-      }, input.output, nodeName);
+        errorMessage: 'Expected a list of chunks, got ' + safeStringify(response.output).slice(0, 100),
+        originalInput: response.input
+      }, response.input, nodeName);
     }
+    const chunks = response.output.map((content, chunkIndex) => ({
+      parentId: itemIndex,
+      chunkIndex,
+      chunkCount: response.output.length,
+      content
+    }));
+    return AitomicsResponse.create(chunks, response.input, nodeName);
+  }
+
+  // Function to run a node on every chunk of an item in turn, a failing chunk fails the whole item
+  async function runOnChunks(callerId, input, nodeName, itemIndex, console) {
+    if (input.output && input.output.error) return input;
+    const chunks = [];
+    for (const chunk of input.output) {
+      const response = await runCaller(callerId, AitomicsResponse.create(chunk.content, chunk.content, nodeName), nodeName, itemIndex, console);
+      if (response.output && response.output.error) {
+        return AitomicsResponse.create({
+          error: true,
+          errorMessage: 'Chunk ' + (chunk.chunkIndex + 1) + ' of ' + chunk.chunkCount + ': ' + response.output.errorMessage,
+          originalInput: input.output
+        }, input.output, nodeName);
+      }
+      chunks.push({ ...chunk, content: response.output });
+    }
+    return AitomicsResponse.create(chunks, input.output, nodeName);
   }
 
   // Process each import node's data
   const results = new Map();
   const comparisonResults = new Map();
+  const comparisonReports = new Map();
   
   ${(() => {
     const importBlocks = project.blocks.filter(block => block.type === 'import');
@@ -505,13 +1210,40 @@ async function executeFlow() {
       
       // Start building sequence from the import node
       buildSequence(block.id);
+
+      // The chunks of a splitting node run through the transforms after it one by one, until a combining node
+      let chunked = false;
+      const runModes = callSequence.map(transformBlock => {
+        const chunks = nodeCodeMap.get(transformBlock.id)?.action.chunks;
+        if (chunks === 'split' && !chunked) {
+          chunked = true;
+          return 'split';
+        }
+        if (chunks === 'combine' && chunked) {
+          chunked = false;
+          return 'single';
+        }
+        return chunked ? 'chunks' : 'single';
+      });
+      const runTransform = (transformBlock: Block, index: number) => {
+        const args = `${JSON.stringify(transformBlock.id)}, result, ${JSON.stringify(transformBlock.name || transformBlock.id)}, i, console`;
+        switch (runModes[index]) {
+          case 'split':
+            return `toChunks(await runCaller(${args}), i, ${JSON.stringify(transformBlock.name || transformBlock.id)})`;
+          case 'chunks':
+            return `await runOnChunks(${args})`;
+          default:
+            return `await runCaller(${args})`;
+        }
+      };
       
-      return `  // Process data from import node: ${JSON.stringify(block.name || block.id)} (${maxItems ? 'processing ' + maxItems + ' items' : 'processing all items'})
+      return `  // Process data from import node: ${JSON.stringify(block.name || block.id)} (processing ${describeSampling(sampling)})
   {
     const items = importResults.get(${JSON.stringify(block.id)}) || [];
-    const itemsToProcess = items${maxItems !== undefined ? `.slice(0, ${maxItems})` : ''};
+    const sourceIndices = sampleIndices(items, ${JSON.stringify(block.name || block.id)});
+    const itemsToProcess = sourceIndices.map(index => items[index]);
     
-    console.log('[FLOW] Processing ' + itemsToProcess.length + ' items from ${JSON.stringify(block.name || block.id)}');
+    console.log('[FLOW] Processing ' + itemsToProcess.length + ' of ' + items.length + ' items from ${JSON.stringify(block.name || block.id)}');
     
     // Add divider after flow message
     if (UI_LOGGING) {
@@ -525,9 +1257,62 @@ async function executeFlow() {
     // Create a map for this import node's results
     const nodeResults = [];
     results.set(${JSON.stringify(block.id)}, nodeResults);
-    
-    for (let i = 0; i < itemsToProcess.length; i++) {
+
+    // Items completed by an earlier attempt of this run, by their index in the file
+    const completedItems = loadCheckpoint(${JSON.stringify(block.id)}, ${JSON.stringify(callSequence.map(transformBlock => transformBlock.id))});
+    if (completedItems.size > 0) {
+      console.log('[FLOW] Resuming with ' + completedItems.size + ' items already completed from ${JSON.stringify(block.name || block.id)}');
+    }
+
+    // Process a single item, logging through the given console so parallel items keep their output together
+    const processItem = async (i, console) => {
       const item = itemsToProcess[i];
+      const sourceIndex = sourceIndices[i];
+
+      // Restore checkpointed items instead of running them again, their outputs are logged like those of a run
+      const checkpoint = completedItems.get(sourceIndex);
+      if (checkpoint) {
+        if (UI_LOGGING) {
+          console.log('[FLOW_UI_LOG] ' + JSON.stringify({
+            type: 'item_update',
+            nodeId: ${JSON.stringify(block.id)},
+            nodeName: ${JSON.stringify(block.name || block.id)},
+            current: i + 1,
+            total: itemsToProcess.length
+          }));
+        }
+        console.log('[FLOW] Restored item ' + (i + 1) + '/' + itemsToProcess.length + ' from checkpoint');
+        if (UI_LOGGING) {${callSequence.map(transformBlock => `
+          console.log('[FLOW_UI_LOG] ' + JSON.stringify({
+            type: 'transform',
+            nodeId: ${JSON.stringify(transformBlock.id)},
+            nodeName: ${JSON.stringify(transformBlock.name || transformBlock.id)},
+            input: checkpoint.results[${JSON.stringify(transformBlock.id)}].input,
+            output: checkpoint.results[${JSON.stringify(transformBlock.id)}].output,
+            itemIndex: i,
+            sourceIndex,
+            restored: true
+          }));`).join('')}
+        }
+        return {
+          transformResults: {${callSequence.map(transformBlock => `
+            ${JSON.stringify(transformBlock.id)}: AitomicsResponse.create(
+              checkpoint.results[${JSON.stringify(transformBlock.id)}].output,
+              checkpoint.results[${JSON.stringify(transformBlock.id)}].input,
+              ${JSON.stringify(transformBlock.name || transformBlock.id)}
+            ),`).join('')}
+          },
+          result: AitomicsResponse.create(checkpoint.final.output, checkpoint.final.input, checkpoint.final.generator)
+        };
+      }
+
+      // Results of this item per transform, checkpointed once the item completes
+      const transformResults = {};
+      const itemResults = {};
+
+      // Hold here while the flow is paused, so resuming continues with this item
+      await pausePoint('before item ' + (i + 1) + '/' + itemsToProcess.length + ' from ' + ${JSON.stringify(block.name || block.id)});
+
       // Log UI item update at the start of each iteration
       if (UI_LOGGING) {
         console.log('[FLOW_UI_LOG] ' + JSON.stringify({
@@ -549,7 +1334,7 @@ async function executeFlow() {
         const importInput = result;
         const importTime = new Date();
         console.log('[FLOW] conducting import: ${JSON.stringify(block.name || block.id)} (' + importTime.toISOString().slice(11, 23) + ')');
-        result = await runCaller(${JSON.stringify(block.id)}, result, ${JSON.stringify(block.name || block.id)});
+        result = await runCaller(${JSON.stringify(block.id)}, result, ${JSON.stringify(block.name || block.id)}, i, console);
         
         // Log UI import if enabled
         if (UI_LOGGING) {
@@ -560,7 +1345,9 @@ async function executeFlow() {
             input: importInput.output,
             output: result.output,
             error: result.error || undefined,
-            errorMessage: result.errorMessage || undefined
+            errorMessage: result.errorMessage || undefined,
+            itemIndex: i,
+            sourceIndex
           }));
         }
       }
@@ -572,10 +1359,12 @@ async function executeFlow() {
       
       // Skip further transforms if we have an error
       if (!transformInput.error) {
+        await pausePoint('before transformation ' + ${JSON.stringify(transformBlock.name || transformBlock.id)});
+
         // Run the transform and store result
         const time_${transformBlock.id.replace(/[^a-zA-Z0-9]/g, '_')} = new Date();
         console.log('[FLOW] conducting transformation: ${JSON.stringify(transformBlock.name || transformBlock.id)} (' + time_${transformBlock.id.replace(/[^a-zA-Z0-9]/g, '_')}.toISOString().slice(11, 23) + ')');
-        result = await runCaller(${JSON.stringify(transformBlock.id)}, result, ${JSON.stringify(transformBlock.name || transformBlock.id)});
+        result = ${runTransform(transformBlock, index)};
         
         // Log UI transformation if enabled
         if (UI_LOGGING) {
@@ -586,7 +1375,9 @@ async function executeFlow() {
             input: transformInput.output,
             output: result.output,
             error: result.error || undefined,
-            errorMessage: result.errorMessage || undefined
+            errorMessage: result.errorMessage || undefined,
+            itemIndex: i,
+            sourceIndex
           }));
         }
       } else {
@@ -594,14 +1385,19 @@ async function executeFlow() {
         result = transformInput;
       }
       
-      // Store the transform result under its own ID
-      if (!results.has(${JSON.stringify(transformBlock.id)})) {
-        results.set(${JSON.stringify(transformBlock.id)}, []);
-      }
-      results.get(${JSON.stringify(transformBlock.id)}).push(result);`).join('\n') : '// No transforms to run'}
+      // Keep the transform result, it is stored under its own ID once all items are done
+      transformResults[${JSON.stringify(transformBlock.id)}] = result;
+      itemResults[${JSON.stringify(transformBlock.id)}] = { output: result.output, input: transformInput.output };`).join('\n') : '// No transforms to run'}
       
-      // Store the final result under the import node's ID
-      nodeResults.push(result);
+      saveCheckpoint(${JSON.stringify(block.id)}, {
+        index: sourceIndex,
+        results: itemResults,
+        final: {
+          output: result.output,
+          input: (transformInput || item).output,
+          generator: ${JSON.stringify(callSequence.length > 0 ? (callSequence[callSequence.length - 1].name || callSequence[callSequence.length - 1].id) : (block.name || block.id))}
+        }
+      });
 
       // Add divider after completing the item processing
       if (UI_LOGGING) {
@@ -612,11 +1408,37 @@ async function executeFlow() {
           itemIndex: i
         }));
       }
+
+      return { transformResults, result };
+    };
+
+    // Run up to CONCURRENCY items at a time, their output is written in item order
+    const limit = pLimit(CONCURRENCY);
+    const orderedOutput = createOrderedOutput();
+    const itemOutcomes = await Promise.all(itemsToProcess.map((item, i) => limit(async () => {
+      try {
+        return await processItem(i, orderedOutput.console(i));
+      } finally {
+        orderedOutput.complete(i);
+      }
+    })));
+
+    // Store the results in item order, each transform under its own ID and the final result under the import node's ID
+    for (const { transformResults, result } of itemOutcomes) {${callSequence.map(transformBlock => `
+      if (!results.has(${JSON.stringify(transformBlock.id)})) {
+        results.set(${JSON.stringify(transformBlock.id)}, []);
+      }
+      results.get(${JSON.stringify(transformBlock.id)}).push(transformResults[${JSON.stringify(transformBlock.id)}]);`).join('')}
+      nodeResults.push(result);
     }
   }`;
     }).join('\n\n');
   })()}
 
+  if (CACHE_DIR && cacheHits > 0) {
+    console.log('[FLOW] Reused ' + cacheHits + ' cached LLM responses');
+  }
+
   // Add stop divider after all transforms are done but before comparisons start
   if (UI_LOGGING) {
     console.log('[FLOW_UI_LOG] ' + JSON.stringify({
@@ -632,10 +1454,10 @@ async function executeFlow() {
       const nodeInfo = nodeCodeMap.get(block.id);
       if (!nodeInfo) return '';
 
-      // Find the two input sources for this comparison node
+      // Find the input sources for this comparison node, one per rater
       const incomingEdges = project.edges.filter(e => e.target === block.id);
-      if (incomingEdges.length !== 2) {
-        console.warn('[FLOW_ERROR] Comparison node ${JSON.stringify(block.name || block.id)} requires exactly 2 inputs, found ' + incomingEdges.length);
+      if (nodeInfo.action.multiRater ? incomingEdges.length < 2 : incomingEdges.length !== 2) {
+        console.warn(`[FLOW_ERROR] Comparison node ${JSON.stringify(block.name || block.id)} requires ${nodeInfo.action.multiRater ? 'at least' : 'exactly'} 2 inputs, found ${incomingEdges.length}`);
         return '';
       }
 
@@ -662,21 +1484,34 @@ async function executeFlow() {
         return traverse(nodeId);
       }
 
-      const [source1, source2] = incomingEdges.map(e => e.source);
-      const source1Import = findSourceImportNode(source1);
-      const source2Import = findSourceImportNode(source2);
+      const sources = incomingEdges.map(e => e.source);
+      const sourceNames = sources.map(source => findSourceImportNode(source)?.name || source);
+      const quotedNames = sourceNames.map(name => JSON.stringify(name));
 
       return `  // Run comparison: ${JSON.stringify(block.name || block.id)}
   {
-    const list1 = results.get(${JSON.stringify(source1)}) || [];
-    const list2 = results.get(${JSON.stringify(source2)}) || [];
+    const lists = ${JSON.stringify(sources)}.map(source => results.get(source) || []);
+    const [list1, list2] = lists;
     
     try {
       // Log the comparison start
-      console.log('[FLOW] Running comparison between ${JSON.stringify(source1Import?.name || source1)} and ${JSON.stringify(source2Import?.name || source2)}');
+      console.log(${JSON.stringify('[FLOW] Running comparison between ' + quotedNames.slice(0, -1).join(', ') + ' and ' + quotedNames[quotedNames.length - 1])});
       
-      const comparisonResult = await comparisonCallers[${JSON.stringify(block.id)}](list1, list2);
+      const comparisonResult = await comparisonCallers[${JSON.stringify(block.id)}](...lists);
       comparisonResults.set(${JSON.stringify(block.id)}, comparisonResult);
+      const comparisonReport = agreementReport(lists, ${JSON.stringify(sourceNames)});
+      comparisonReports.set(${JSON.stringify(block.id)}, comparisonReport);
+
+      // Bootstrap a confidence interval of the result, a failure leaves the result without one
+      let comparisonInterval;
+      if (bootstrapSettings[${JSON.stringify(block.id)}] && bootstrapEstimate(comparisonResult) !== undefined) {
+        try {
+          comparisonInterval = await bootstrapInterval(comparisonCallers[${JSON.stringify(block.id)}], lists, bootstrapSettings[${JSON.stringify(block.id)}]);
+          comparisonReport.interval = comparisonInterval;
+        } catch (error) {
+          console.warn('[FLOW_WARN] Failed to bootstrap comparison:', safeStringify({ node: ${JSON.stringify(block.name || block.id)}, error: error.message }));
+        }
+      }
 
       // Log UI comparison if enabled
       if (UI_LOGGING) {
@@ -686,11 +1521,15 @@ async function executeFlow() {
           nodeId: ${JSON.stringify(block.id)},
           nodeName: ${JSON.stringify(block.name || block.id)},
           actionName: ${JSON.stringify(nodeInfo.action.name)},
-          list1: ${JSON.stringify(source1Import?.name || source1)},
-          list2: ${JSON.stringify(source2Import?.name || source2)},
+          list1: ${JSON.stringify(sourceNames[0])},
+          list2: ${JSON.stringify(sourceNames[1])},
           list1Size: list1.length,
           list2Size: list2.length,
-          comparisonResult: comparisonResult
+          lists: ${JSON.stringify(sourceNames)},
+          listSizes: lists.map(list => list.length),
+          comparisonResult: comparisonResult,
+          comparisonReport: comparisonReport,
+          comparisonInterval: comparisonInterval
         }));
       }
     } catch (error) {
@@ -725,11 +1564,13 @@ async function executeFlow() {
       const sourceBlock = project.blocks.find(b => b.id === source);
       const isComparison = sourceBlock?.type === 'comparison';
       const sourceData = isComparison ? 'comparisonResults.get(\'' + source + '\')' : 'results.get(\'' + source + '\')';
+      const sourceReport = isComparison ? 'comparisonReports.get(\'' + source + '\')' : 'undefined';
 
       return `    // Export: ${block.name || block.id}
     {
       const data = ${sourceData};
-      if (!data) {
+      const report = ${sourceReport};
+      if (data === undefined || data === null) {
         console.warn('[FLOW_ERROR] No data available for export:', safeStringify('${block.name || block.id}'));
         return;
       }
@@ -741,7 +1582,7 @@ async function executeFlow() {
           return;
         }
         
-        const exportResult = await exportCallers['${block.id}'](data);
+        const exportResult = await exportCallers['${block.id}'](data, report);
         
         // Save the export result to file
         fs.writeFileSync(
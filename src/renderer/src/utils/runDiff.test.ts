@@ -0,0 +1,92 @@
+import { diffRuns, formatOutput } from './runDiff';
+import { RunRecord } from '../types/Project';
+
+type Output = RunRecord['outputs'][number];
+
+const run = (outputs: Output[], comparisons: RunRecord['comparisons'] = []): RunRecord => ({
+  id: 'run',
+  projectId: 'project',
+  projectName: 'Project',
+  project: { id: 'project', name: 'Project', description: '', blocks: [], edges: [], createdAt: '', updatedAt: '' },
+  status: 'completed',
+  startedAt: '',
+  itemCounts: [],
+  errors: [],
+  comparisons,
+  exports: [],
+  outputs,
+  logs: [],
+});
+
+const output = (itemIndex: number, value: any, sourceIndex?: number): Output => ({
+  nodeId: 'code',
+  nodeName: 'Code',
+  itemIndex,
+  sourceIndex,
+  input: `item ${sourceIndex ?? itemIndex}`,
+  output: value,
+});
+
+describe('diffRuns', () => {
+  test('reports changed, unchanged and missing items with the most frequent transitions first', () => {
+    const diff = diffRuns(
+      run([output(0, 'POSITIVE'), output(1, 'NEGATIVE'), output(2, 'NEGATIVE'), output(3, 'NEUTRAL')]),
+      run([output(0, 'POSITIVE'), output(1, 'NEUTRAL'), output(2, 'NEUTRAL'), output(3, 'POSITIVE'), output(4, 'POSITIVE')])
+    );
+
+    const [node] = diff.nodes;
+    expect(node.items.map(item => item.status)).toEqual(['unchanged', 'changed', 'changed', 'changed', 'missing']);
+    expect(node.changedCount).toBe(3);
+    expect(node.missingCount).toBe(1);
+    expect(node.transitions).toEqual([
+      { from: 'NEGATIVE', to: 'NEUTRAL', count: 2 },
+      { from: 'NEUTRAL', to: 'POSITIVE', count: 1 },
+    ]);
+  });
+
+  test('lines up the items of differently sampled runs by their index in the file', () => {
+    // The first run sampled items 3 and 7 of the file, the second items 5 and 7
+    const diff = diffRuns(
+      run([output(0, 'POSITIVE', 3), output(1, 'NEGATIVE', 7)]),
+      run([output(0, 'POSITIVE', 5), output(1, 'NEGATIVE', 7)])
+    );
+
+    expect(diff.nodes[0].items.map(item => [item.itemIndex, item.status])).toEqual([
+      [3, 'missing'],
+      [5, 'missing'],
+      [7, 'unchanged'],
+    ]);
+  });
+
+  test('compares structured outputs by their JSON', () => {
+    const diff = diffRuns(run([output(0, { label: 'A' })]), run([output(0, { label: 'A' })]));
+    expect(diff.nodes[0].items[0].status).toBe('unchanged');
+    expect(formatOutput(['A', 'B'])).toBe('["A","B"]');
+  });
+
+  test('reports the change of numeric comparison results', () => {
+    const comparison = (result: string) => ({ nodeName: 'IRR', actionName: "Cohen's Kappa", list1: 'A', list2: 'B', result });
+    const diff = diffRuns(run([], [comparison('0.5')]), run([], [comparison('0.75')]));
+    expect(diff.comparisons).toEqual([
+      { nodeName: 'IRR', actionName: "Cohen's Kappa", resultA: '0.5', resultB: '0.75', delta: 0.25 },
+    ]);
+  });
+
+  test('pairs comparisons by their node, also when nodes share or change their name', () => {
+    const comparison = (nodeId: string | undefined, nodeName: string, result: string) =>
+      ({ nodeId, nodeName, actionName: "Cohen's Kappa", list1: 'A', list2: 'B', result });
+    const diff = diffRuns(
+      run([], [comparison('kappa-1', 'IRR', '0.5'), comparison('kappa-2', 'IRR', '0.6')]),
+      run([], [comparison('kappa-2', 'IRR', '0.7'), comparison('kappa-1', 'IRR (coders)', '0.5')])
+    );
+    expect(diff.comparisons.map(c => [c.nodeId, c.nodeName, c.delta])).toEqual([
+      ['kappa-1', 'IRR (coders)', 0],
+      ['kappa-2', 'IRR', expect.closeTo(0.1)],
+    ]);
+
+    // Runs recorded without the ID of the node are paired by its name
+    const recorded = diffRuns(run([], [comparison(undefined, 'IRR', '0.5')]), run([], [comparison('kappa-1', 'IRR', '0.75')]));
+    expect(recorded.comparisons).toHaveLength(1);
+    expect(recorded.comparisons[0].delta).toBe(0.25);
+  });
+});
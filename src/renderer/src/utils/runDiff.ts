@@ -0,0 +1,143 @@
+import { RunRecord } from '../types/Project';
+
+export interface ItemDiff {
+  itemIndex: number;  // Index of the item in its import file, so items of differently sampled runs line up
+  input: any;
+  outputA: any;
+  outputB: any;
+  status: 'changed' | 'unchanged' | 'missing';  // Missing when only one of the runs processed the item
+}
+
+export interface NodeDiff {
+  nodeId: string;
+  nodeName: string;
+  items: ItemDiff[];
+  changedCount: number;
+  missingCount: number;
+  transitions: { from: string; to: string; count: number }[];  // Changed labels, most frequent first
+}
+
+export interface ComparisonDelta {
+  nodeId?: string;  // Not recorded by earlier versions
+  nodeName: string;
+  actionName: string;
+  resultA?: string;
+  resultB?: string;
+  delta?: number;  // Only set when both results are numeric
+}
+
+export interface RunDiff {
+  nodes: NodeDiff[];
+  comparisons: ComparisonDelta[];
+}
+
+// Function to turn an output into a comparable label
+export function formatOutput(output: any): string {
+  if (output === undefined) return '';
+  return typeof output === 'string' ? output : JSON.stringify(output);
+}
+
+// Function to collect the outputs of a run per transform node and item, runs recorded before the index of
+// the item in its file was logged fall back to its position among the processed items
+function collectOutputs(run: RunRecord) {
+  const nodes = new Map<string, { nodeName: string; items: Map<number, { input: any; output: any }> }>();
+  for (const entry of run.outputs) {
+    if (!nodes.has(entry.nodeId)) {
+      nodes.set(entry.nodeId, { nodeName: entry.nodeName, items: new Map() });
+    }
+    nodes.get(entry.nodeId)!.items.set(entry.sourceIndex ?? entry.itemIndex, { input: entry.input, output: entry.output });
+  }
+  return nodes;
+}
+
+type Comparison = RunRecord['comparisons'][number];
+
+// Function to check whether two comparisons are results of the same node, by its ID or, for runs recorded
+// before comparisons kept the ID of their node, by its name
+function isSameComparison(comparisonA: Comparison, comparisonB: Comparison) {
+  return comparisonA.nodeId && comparisonB.nodeId
+    ? comparisonA.nodeId === comparisonB.nodeId
+    : comparisonA.nodeName === comparisonB.nodeName;
+}
+
+// Function to compare the item outputs and comparison results of two runs of the same project
+export function diffRuns(runA: RunRecord, runB: RunRecord): RunDiff {
+  const outputsA = collectOutputs(runA);
+  const outputsB = collectOutputs(runB);
+
+  const nodeIds = Array.from(new Set([...Array.from(outputsA.keys()), ...Array.from(outputsB.keys())]));
+  const nodes = nodeIds.map(nodeId => {
+    const nodeA = outputsA.get(nodeId);
+    const nodeB = outputsB.get(nodeId);
+    const itemsA = nodeA?.items || new Map();
+    const itemsB = nodeB?.items || new Map();
+
+    const indices = Array.from(new Set([...Array.from(itemsA.keys()), ...Array.from(itemsB.keys())]))
+      .sort((a, b) => a - b);
+    const transitions = new Map<string, { from: string; to: string; count: number }>();
+
+    const items: ItemDiff[] = indices.map(itemIndex => {
+      const itemA = itemsA.get(itemIndex);
+      const itemB = itemsB.get(itemIndex);
+      if (!itemA || !itemB) {
+        return {
+          itemIndex,
+          input: (itemA || itemB)?.input,
+          outputA: itemA?.output,
+          outputB: itemB?.output,
+          status: 'missing'
+        };
+      }
+
+      const from = formatOutput(itemA.output);
+      const to = formatOutput(itemB.output);
+      if (from !== to) {
+        const key = JSON.stringify([from, to]);
+        const transition = transitions.get(key) || { from, to, count: 0 };
+        transition.count++;
+        transitions.set(key, transition);
+      }
+
+      return {
+        itemIndex,
+        input: itemA.input,
+        outputA: itemA.output,
+        outputB: itemB.output,
+        status: from === to ? 'unchanged' : 'changed'
+      };
+    });
+
+    return {
+      nodeId,
+      nodeName: nodeB?.nodeName || nodeA?.nodeName || nodeId,
+      items,
+      changedCount: items.filter(item => item.status === 'changed').length,
+      missingCount: items.filter(item => item.status === 'missing').length,
+      transitions: Array.from(transitions.values()).sort((a, b) => b.count - a.count)
+    };
+  });
+
+  // Pair each comparison of the first run with the same node's comparison of the second run, the others stay unpaired
+  const comparisonPairs: [Comparison | undefined, Comparison | undefined][] = [];
+  const unmatchedB = [...runB.comparisons];
+  for (const comparisonA of runA.comparisons) {
+    const index = unmatchedB.findIndex(comparisonB => isSameComparison(comparisonA, comparisonB));
+    comparisonPairs.push([comparisonA, index === -1 ? undefined : unmatchedB.splice(index, 1)[0]]);
+  }
+  unmatchedB.forEach(comparisonB => comparisonPairs.push([undefined, comparisonB]));
+
+  const comparisons = comparisonPairs.map(([comparisonA, comparisonB]) => {
+    const valueA = parseFloat(comparisonA?.result || '');
+    const valueB = parseFloat(comparisonB?.result || '');
+    return {
+      nodeId: comparisonB?.nodeId || comparisonA?.nodeId,
+      nodeName: comparisonB?.nodeName || comparisonA?.nodeName || '',
+      actionName: comparisonB?.actionName || comparisonA?.actionName || '',
+      resultA: comparisonA?.result,
+      resultB: comparisonB?.result,
+      delta: !isNaN(valueA) && !isNaN(valueB) ? valueB - valueA : undefined
+    };
+  });
+
+  return { nodes, comparisons };
+}